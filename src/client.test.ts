@@ -0,0 +1,741 @@
+import {
+  type ClientOptions,
+  GFNTerminationError,
+  InvalidStreamReturn,
+  MissingProviderConfig,
+  StreamAbortedError,
+  StreamingClient,
+  StreamProvider,
+  StreamState,
+  StreamStateTimeoutError,
+  StreamTarget,
+  UnsupportedProvider,
+} from "./client"
+import errors from "./errors"
+import type { GeforceStreamConfig } from "./gfn"
+import { TerminationErrorCode } from "./gfn/types"
+import { type StreamMetrics, StreamMilestone } from "./metrics"
+import {
+  StreamDiagnosticSeverity,
+  type StreamProviderAdapter,
+} from "./provider"
+import {
+  SessionReplacedError,
+  SessionState,
+  type StreamConfig,
+  type UbitusStreamConfig,
+} from "./session"
+import { deferred, fakeAdapter, mockLogger } from "./test-utils"
+import { MockSessionServer } from "./testing"
+
+const logger = mockLogger()
+
+function createClient(
+  server: MockSessionServer,
+  opts: Partial<ClientOptions> = {},
+  adapter: StreamProviderAdapter = fakeAdapter(),
+) {
+  const client = new StreamingClient({
+    auth: { token: "token" },
+    fetch: server.fetch,
+    logger,
+    skipBrowserSupportChecks: true,
+    sessionRefreshIntervalMillis: 0,
+    ...opts,
+  })
+  client.registerProvider(StreamProvider.GeforceNow, adapter)
+  return client
+}
+
+const target = {
+  projectId: "project",
+  worldId: "world",
+  target: StreamTarget.Embedded,
+  container: {} as HTMLElement,
+} as const
+
+// Sessions are created with the browser's support for each provider.
+beforeAll(() => {
+  Object.defineProperty(globalThis, "navigator", {
+    value: { userAgent: "Mozilla/5.0 Chrome/120.0.0.0" },
+    configurable: true,
+  })
+})
+
+afterAll(() => {
+  Reflect.deleteProperty(globalThis, "navigator")
+})
+
+describe("StreamingClient.connect", () => {
+  it("should set up, start and clean up the stream", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+
+    const session = client.connect(target)
+    const states: StreamState[] = []
+    session.events.on("streamStateUpdated", (event) => {
+      states.push(event.detail.state)
+      if (event.detail.state === StreamState.Streaming) {
+        session.stop()
+      }
+    })
+
+    expect(await session.done).toBeUndefined()
+    expect(states).toEqual([
+      StreamState.Loading,
+      StreamState.Streaming,
+      StreamState.Terminated,
+    ])
+    expect(session.state.stream).toBe(StreamState.Terminated)
+    expect(session.sessionId).toBe("mock-session-1")
+    // Cleanup does not block the stream terminating.
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(server.getSession("mock-session-1")?.state).toBe(
+      SessionState.Deleted,
+    )
+  })
+
+  it("should not report an error once stopped while streaming", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+
+    const session = client.connect(target)
+    await client.waitForState(StreamState.Streaming)
+    session.stop()
+
+    expect(await session.done).toBeUndefined()
+  })
+
+  it("should not report an error when the provider ends the stream normally", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const adapter = fakeAdapter()
+    const client = createClient(server, {}, adapter)
+    const onError = jest.fn()
+    client.on("error", onError)
+
+    const session = client.connect(target)
+    await client.waitForState(StreamState.Streaming)
+    adapter.terminate()
+
+    expect(await session.done).toBeUndefined()
+    expect(session.state.stream).toBe(StreamState.Terminated)
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it("should emit the diagnostics reported by the provider", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const adapter = fakeAdapter()
+    const client = createClient(server, {}, adapter)
+    const diagnostics: unknown[] = []
+    client.on("diagnostic", (event) => diagnostics.push(event.detail))
+
+    const session = client.connect(target)
+    const forwarded = jest.fn()
+    session.events.on("diagnostic", forwarded)
+    await client.waitForState(StreamState.Streaming)
+    adapter.diagnose({
+      severity: StreamDiagnosticSeverity.Warning,
+      code: TerminationErrorCode.ServerDisconnectedMaintenanceMode,
+      codeName: "ServerDisconnectedMaintenanceMode",
+      message: "entering maintenance",
+    })
+    session.stop()
+    await session.done
+
+    expect(diagnostics).toEqual([
+      {
+        severity: StreamDiagnosticSeverity.Warning,
+        code: TerminationErrorCode.ServerDisconnectedMaintenanceMode,
+        codeName: "ServerDisconnectedMaintenanceMode",
+        message: "entering maintenance",
+        provider: StreamProvider.GeforceNow,
+      },
+    ])
+    expect(forwarded).toHaveBeenCalledTimes(1)
+  })
+
+  it("should delete the session when stopped while queued", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Queued] })
+    const client = createClient(server)
+
+    const session = client.connect(target)
+    session.events.on("sessionStateUpdated", () => session.stop())
+
+    expect(await session.done).toBeUndefined()
+    expect(server.getSession("mock-session-1")?.state).toBe(
+      SessionState.Deleted,
+    )
+  })
+
+  it("should stop listening to the client if the stream fails to start", async () => {
+    const server = new MockSessionServer({
+      states: [SessionState.Active],
+      providerConfig: { name: "unregistered" } as unknown as StreamConfig,
+    })
+    const client = createClient(server)
+    const add = jest.spyOn(client, "addEventListener")
+    const remove = jest.spyOn(client, "removeEventListener")
+
+    expect(await client.connect(target).done).toBe(UnsupportedProvider)
+    // The listener methods are overloaded per event, so their calls are untyped.
+    const removed = remove.mock.calls as unknown[][]
+    for (const call of add.mock.calls as unknown[][]) {
+      expect(removed).toContainEqual(call)
+    }
+    expect(server.getSession("mock-session-1")?.state).toBe(
+      SessionState.Deleted,
+    )
+  })
+
+  it("should clean up a session without a provider config", async () => {
+    const server = new MockSessionServer({
+      states: [SessionState.Active],
+      providerConfig: { name: "" } as unknown as StreamConfig,
+    })
+    const client = createClient(server)
+
+    expect(await client.connect(target).done).toBe(MissingProviderConfig)
+    expect(server.getSession("mock-session-1")?.state).toBe(
+      SessionState.Deleted,
+    )
+  })
+})
+
+describe("StreamingClient metrics", () => {
+  async function stream(client: StreamingClient) {
+    const session = client.connect(target)
+    await client.waitForState(StreamState.Streaming)
+    session.stop()
+    await session.done
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  it("should emit the metrics once the stream starts and once it terminates", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+    const metrics: StreamMetrics[] = []
+    client.on("metrics", (event) => metrics.push(event.detail))
+
+    await stream(client)
+
+    expect(metrics).toHaveLength(2)
+    const [started, terminated] = metrics
+    expect(started?.streamId).toBe(terminated?.streamId)
+    expect(started?.milestones).toEqual({
+      [StreamMilestone.SetupRequested]: expect.any(Number),
+      [`session:${SessionState.Active}`]: expect.any(Number),
+      [StreamMilestone.StartRequested]: expect.any(Number),
+      [StreamMilestone.StreamStarted]: expect.any(Number),
+    })
+    expect(started?.timeToFirstFrameMillis).toEqual(expect.any(Number))
+    expect(terminated?.milestones).toHaveProperty(StreamMilestone.Terminated)
+    expect(terminated?.streamingMillis).toEqual(expect.any(Number))
+  })
+
+  it("should forward the metrics to every reporter, even if one fails", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const failing = {
+      report: jest.fn(() => {
+        throw new Error("analytics unavailable")
+      }),
+    }
+    const reporter = { report: jest.fn() }
+    const client = createClient(server, {
+      metricsReporters: [failing, reporter],
+    })
+    const metrics: StreamMetrics[] = []
+    client.on("metrics", (event) => metrics.push(event.detail))
+
+    await stream(client)
+
+    expect(failing.report).toHaveBeenCalledTimes(2)
+    expect(reporter.report.mock.calls).toEqual(
+      metrics.map((detail) => [detail]),
+    )
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Metrics reporter failed",
+      expect.any(Error),
+      expect.objectContaining({ streamId: metrics[0]?.streamId }),
+    )
+  })
+
+  it("should forget the metrics of a session cleaned up without starting", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+    const pending = (
+      client as unknown as { pendingMetrics: Map<string, unknown> }
+    ).pendingMetrics
+
+    const config = await client.setup({
+      projectId: "project",
+      worldId: "world",
+    })
+    if (errors.is(config)) {
+      throw config
+    }
+    expect(pending.size).toBe(1)
+    await client.cleanup(config)
+
+    expect(pending.size).toBe(0)
+  })
+})
+
+describe("StreamingClient.start", () => {
+  async function setUp(client: StreamingClient) {
+    const config = await client.setup({
+      projectId: "project",
+      worldId: "world",
+    })
+    if (errors.is(config)) {
+      throw config
+    }
+    return {
+      ...config,
+      provider: StreamProvider.GeforceNow as const,
+      config: config.config as GeforceStreamConfig,
+    }
+  }
+
+  it("should clean up a stream that is replaced by a new stream", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+    const states: StreamState[] = []
+    client.on("streamStateUpdated", (event) => {
+      states.push(event.detail.state)
+    })
+
+    await client.start({ ...(await setUp(client)), ...target })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    await client.start({ ...(await setUp(client)), ...target })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    client.stop()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(server.listSessions().map(({ state }) => state)).toEqual([
+      SessionState.Deleted,
+      SessionState.Deleted,
+    ])
+    // The replaced stream does not report that it terminated.
+    expect(states).toEqual([
+      StreamState.Loading,
+      StreamState.Streaming,
+      StreamState.Loading,
+      StreamState.Streaming,
+      StreamState.Terminated,
+    ])
+  })
+
+  it("should not start a stream that is replaced while loading", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const adapter = fakeAdapter()
+    const client = createClient(server, {}, adapter)
+    const loaded = deferred()
+    adapter.load.mockReturnValueOnce(loaded.promise)
+    const first = await setUp(client)
+    const second = await setUp(client)
+
+    const replaced = client.start({ ...first, ...target })
+    const started = client.start({ ...second, ...target })
+    await client.waitForState(StreamState.Streaming)
+    loaded.resolve(undefined)
+
+    expect(await replaced).toBeInstanceOf(StreamAbortedError)
+    expect(await started).toBe(target.container)
+    expect(adapter.startEmbedded).toHaveBeenCalledTimes(1)
+    expect(client.getActiveStream()?.sessionId).toBe(second.sessionId)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(server.listSessions().map(({ state }) => state)).toEqual([
+      SessionState.Deleted,
+      SessionState.Active,
+    ])
+  })
+
+  it("should stop a stream that is replaced while starting", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const adapter = fakeAdapter()
+    const client = createClient(server, {}, adapter)
+    const startedFirst = deferred()
+    adapter.startEmbedded.mockReturnValueOnce(startedFirst.promise)
+    const loadedSecond = deferred()
+    const first = await setUp(client)
+    const second = await setUp(client)
+
+    const replaced = client.start({ ...first, ...target })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    adapter.load.mockReturnValueOnce(loadedSecond.promise)
+    const started = client.start({ ...second, ...target })
+    adapter.stop.mockClear()
+    startedFirst.resolve(undefined)
+
+    expect(await replaced).toBeInstanceOf(StreamAbortedError)
+    expect(adapter.stop).toHaveBeenCalledTimes(1)
+
+    loadedSecond.resolve(undefined)
+    expect(await started).toBe(target.container)
+    await client.waitForState(StreamState.Streaming)
+    expect(client.getActiveStream()?.sessionId).toBe(second.sessionId)
+  })
+})
+
+describe("StreamingClient provider registry", () => {
+  const started = {
+    streamId: "stream",
+    projectId: "project",
+    worldId: "world",
+    sessionId: "session",
+    target: StreamTarget.Embedded,
+    container: {} as HTMLElement,
+  } as const
+
+  it("should start streams with the adapter registered for the provider", async () => {
+    const client = createClient(new MockSessionServer())
+    const adapter = fakeAdapter()
+    const startEmbedded = jest.spyOn(adapter, "startEmbedded")
+    client.registerProvider("custom", adapter)
+
+    const config = { url: "https://custom.example.com" }
+    const result = await client.start({
+      ...started,
+      provider: "custom",
+      config,
+    })
+
+    expect(result).toBe(started.container)
+    expect(startEmbedded).toHaveBeenCalledWith(
+      started.container,
+      config,
+      expect.anything(),
+    )
+  })
+
+  it("should return UnsupportedProvider for a provider without an adapter", async () => {
+    const client = createClient(new MockSessionServer())
+
+    const result = await client.start({
+      ...started,
+      provider: "unregistered",
+      config: {},
+    })
+
+    expect(result).toBe(UnsupportedProvider)
+  })
+
+  it("should type the config of the built-in providers", () => {
+    const client = createClient(new MockSessionServer())
+    // Only checked by the compiler, which fails if the config is accepted, so
+    // the stream is never started.
+    const _start = () =>
+      client.start({
+        ...started,
+        provider: StreamProvider.GeforceNow,
+        // @ts-expect-error The config does not match the provider.
+        config: {} as UbitusStreamConfig,
+      })
+  })
+})
+
+describe("StreamingClient.waitForState", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("should resolve immediately once the state has been reached", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+
+    expect(await client.waitForState(StreamState.Idle)).toBeUndefined()
+
+    const session = client.connect(target)
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(await client.waitForState(StreamState.Streaming)).toBeUndefined()
+    expect(await client.waitForState(SessionState.Active)).toBeUndefined()
+    session.stop()
+  })
+
+  it("should wait until the state is reached", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server)
+
+    const waiting = client.waitForState(StreamState.Streaming, {
+      timeoutMillis: 1000,
+    })
+    const session = client.connect(target)
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(await waiting).toBeUndefined()
+    expect(jest.getTimerCount()).toBe(0)
+    session.stop()
+  })
+
+  it("should return StreamStateTimeoutError once it times out", async () => {
+    const client = createClient(new MockSessionServer())
+
+    const waiting = client.waitForState(StreamState.Streaming, {
+      timeoutMillis: 1000,
+    })
+    await jest.advanceTimersByTimeAsync(999)
+    expect(jest.getTimerCount()).toBe(1)
+    await jest.advanceTimersByTimeAsync(1)
+
+    const result = await waiting
+    expect(result).toBeInstanceOf(StreamStateTimeoutError)
+    expect(result?.message).toBe("timed out waiting for state Streaming")
+  })
+
+  it("should return StreamAbortedError once aborted", async () => {
+    const client = createClient(new MockSessionServer())
+    const controller = new AbortController()
+
+    const waiting = client.waitForState(SessionState.Active, {
+      signal: controller.signal,
+      timeoutMillis: 1000,
+    })
+    controller.abort("gave up")
+
+    const result = await waiting
+    expect(result).toBeInstanceOf(StreamAbortedError)
+    expect(result?.cause).toBe("gave up")
+    expect(jest.getTimerCount()).toBe(0)
+    expect(
+      await client.waitForState(SessionState.Active, {
+        signal: controller.signal,
+      }),
+    ).toBeInstanceOf(StreamAbortedError)
+  })
+})
+
+describe("StreamingClient session watcher", () => {
+  const sessionRefreshIntervalMillis = 1000
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  async function connect(adapter = fakeAdapter()) {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(
+      server,
+      { sessionRefreshIntervalMillis },
+      adapter,
+    )
+    const session = client.connect(target)
+    await jest.advanceTimersByTimeAsync(0)
+    expect(session.state.stream).toBe(StreamState.Streaming)
+    return { server, client, session, adapter }
+  }
+
+  it("should stop the stream once the session has ended", async () => {
+    const { server, client, session, adapter } = await connect()
+    const onError = jest.fn()
+    const sessionStates: SessionState[] = []
+    client.on("error", (event) => onError(event.detail))
+    client.on("sessionStateUpdated", (event) => {
+      sessionStates.push(event.detail.state)
+    })
+
+    server.setState("mock-session-1", SessionState.Replaced)
+    await jest.advanceTimersByTimeAsync(sessionRefreshIntervalMillis)
+
+    const result = await session.done
+    expect(errors.as(result, SessionReplacedError)).toBeInstanceOf(
+      SessionReplacedError,
+    )
+    expect(onError).toHaveBeenCalledWith(result)
+    expect(sessionStates).toEqual([SessionState.Replaced])
+    expect(adapter.stop).toHaveBeenCalled()
+  })
+
+  it("should keep streaming when the token is rejected", async () => {
+    const { server, client, session } = await connect()
+    const onTokenExpired = jest.fn()
+    client.on("tokenExpired", onTokenExpired)
+
+    server.respondNext("refresh", { status: 401 })
+    await jest.advanceTimersByTimeAsync(sessionRefreshIntervalMillis)
+
+    expect(onTokenExpired).toHaveBeenCalledTimes(1)
+    expect(session.state.stream).toBe(StreamState.Streaming)
+
+    await jest.advanceTimersByTimeAsync(sessionRefreshIntervalMillis)
+    expect(
+      server.requests.filter(({ route }) => route === "refresh"),
+    ).toHaveLength(2)
+    expect(session.state.stream).toBe(StreamState.Streaming)
+    session.stop()
+  })
+})
+
+describe("StreamingClient reconnect", () => {
+  const reconnect = {
+    initialDelayMillis: 100,
+    backoffMultiplier: 2,
+    maxDelayMillis: 150,
+    maxAttempts: 2,
+  }
+  const networkError = () =>
+    new GFNTerminationError(TerminationErrorCode.NetworkError, 0)
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  async function connect(adapter: ReturnType<typeof fakeAdapter>) {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const client = createClient(server, { reconnect }, adapter)
+    const states: StreamState[] = []
+    const attempts: number[] = []
+    client.on("streamStateUpdated", (event) => {
+      states.push(event.detail.state)
+      if (event.detail.state === StreamState.Reconnecting) {
+        attempts.push(event.detail.attempt)
+      }
+    })
+
+    const session = client.connect(target)
+    await jest.advanceTimersByTimeAsync(0)
+    expect(session.state.stream).toBe(StreamState.Streaming)
+
+    return { server, client, session, states, attempts }
+  }
+
+  const sessionStates = (server: MockSessionServer) =>
+    server.listSessions().map((session) => session.state)
+
+  it("should back off between attempts and give up after the maximum", async () => {
+    const adapter = fakeAdapter()
+    const { server, session, attempts } = await connect(adapter)
+    // The reconnected streams terminate before they start.
+    adapter.autoStart = false
+
+    adapter.terminate(networkError())
+    await jest.advanceTimersByTimeAsync(99)
+    expect(attempts).toEqual([1])
+    expect(server.listSessions()).toHaveLength(1)
+
+    await jest.advanceTimersByTimeAsync(1)
+    expect(server.listSessions()).toHaveLength(2)
+
+    adapter.terminate(networkError())
+    // The delay doubles, up to the maximum delay.
+    await jest.advanceTimersByTimeAsync(149)
+    expect(attempts).toEqual([1, 2])
+    expect(server.listSessions()).toHaveLength(2)
+
+    await jest.advanceTimersByTimeAsync(1)
+    expect(server.listSessions()).toHaveLength(3)
+
+    adapter.terminate(networkError())
+    const result = await session.done
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(result?.cause).toBeInstanceOf(GFNTerminationError)
+    expect(attempts).toEqual([1, 2])
+    expect(sessionStates(server)).toEqual([
+      SessionState.Deleted,
+      SessionState.Deleted,
+      SessionState.Deleted,
+    ])
+  })
+
+  it("should stop reconnecting when stopped during the backoff", async () => {
+    const adapter = fakeAdapter()
+    const { server, session, states } = await connect(adapter)
+
+    adapter.terminate(networkError())
+    await jest.advanceTimersByTimeAsync(0)
+    session.stop()
+
+    expect(await session.done).toBeUndefined()
+    expect(states.slice(-2)).toEqual([
+      StreamState.Reconnecting,
+      StreamState.Terminated,
+    ])
+    expect(jest.getTimerCount()).toBe(0)
+    expect(sessionStates(server)).toEqual([SessionState.Deleted])
+  })
+
+  it("should follow the new session once reconnected", async () => {
+    const adapter = fakeAdapter()
+    const { session } = await connect(adapter)
+    const { streamId } = session
+
+    adapter.terminate(networkError())
+    await jest.advanceTimersByTimeAsync(100)
+
+    expect(session.state.stream).toBe(StreamState.Streaming)
+    expect(session.sessionId).toBe("mock-session-2")
+    expect(session.streamId).not.toBe(streamId)
+    session.stop()
+    await session.done
+  })
+
+  it("should report the metrics of a stream once it is reconnected", async () => {
+    const adapter = fakeAdapter()
+    const { client, session } = await connect(adapter)
+    const { streamId } = session
+    const metrics: StreamMetrics[] = []
+    client.on("metrics", (event) => metrics.push(event.detail))
+
+    adapter.terminate(networkError())
+    await jest.advanceTimersByTimeAsync(100)
+
+    expect(metrics[0]?.streamId).toBe(streamId)
+    expect(metrics[0]?.milestones).toHaveProperty(StreamMilestone.Terminated)
+    // The reconnected stream has metrics of its own.
+    expect(metrics[1]?.streamId).toBe(session.streamId)
+    expect(metrics[1]?.milestones).toHaveProperty(StreamMilestone.StreamStarted)
+    session.stop()
+    await session.done
+  })
+
+  it("should reconnect once when a termination is reported twice", async () => {
+    const adapter = fakeAdapter()
+    const startEmbedded = jest.spyOn(adapter, "startEmbedded")
+    const { server, session, attempts } = await connect(adapter)
+
+    adapter.terminate(networkError())
+    adapter.terminate(networkError())
+    await jest.advanceTimersByTimeAsync(100)
+
+    expect(attempts).toEqual([1])
+    expect(startEmbedded).toHaveBeenCalledTimes(2)
+    expect(session.state.stream).toBe(StreamState.Streaming)
+
+    session.stop()
+    await session.done
+    await jest.advanceTimersByTimeAsync(0)
+    expect(sessionStates(server)).toEqual([
+      SessionState.Deleted,
+      SessionState.Deleted,
+    ])
+  })
+})
+
+describe("StreamingClient.handleStreamReturn", () => {
+  it("should return InvalidStreamReturn for a malformed URL", async () => {
+    const client = createClient(new MockSessionServer())
+
+    expect(await client.handleStreamReturn("not a url")).toBe(
+      InvalidStreamReturn,
+    )
+  })
+
+  it("should return InvalidStreamReturn without a current location", async () => {
+    const client = createClient(new MockSessionServer())
+
+    expect(await client.handleStreamReturn()).toBe(InvalidStreamReturn)
+  })
+})
@@ -4,15 +4,49 @@ import { getStreamCompat } from "./browser/compatibility"
 import errors from "./errors"
 import { type TypedEvent, TypedEventTarget } from "./events"
 import {
-  buildGfnUrl,
   type GeforceStreamConfig,
-  GFNClientNotInitialized,
+  GFNAdapter,
+  type GFNClientError,
   GFNTerminationError,
-  getClient,
-  getOrInitClient,
 } from "./gfn"
-import { SessionClient, type SessionState, type StreamConfig } from "./session"
+import { formatCode } from "./gfn/diagnostics"
+import type { StreamProfile } from "./gfn/profile"
+import { TerminationErrorCode } from "./gfn/types"
+import type { GFNZone } from "./gfn/zones"
+import { invariant } from "./invariant"
+import {
+  ContextLogger,
+  LogBuffer,
+  type LogEntry,
+  type LogLevel,
+} from "./logger"
+import {
+  MetricsCollector,
+  type MetricsReporter,
+  type StreamMetrics,
+  StreamMilestone,
+} from "./metrics"
+import { SessionProgressTracker, type SessionStateDetail } from "./progress"
+import type { StreamDiagnostic, StreamProviderAdapter } from "./provider"
+import {
+  SessionAbortedError,
+  SessionClient,
+  type SessionRequestError,
+  SessionState,
+  type SessionTerminalStateError,
+  type StreamConfig,
+  type UbitusStreamConfig,
+} from "./session"
+import { type StateSnapshot, StreamState, StreamStateMachine } from "./state"
+import {
+  type StreamReturnRecord,
+  saveStreamReturn,
+  takeStreamReturn,
+} from "./stream-return"
+import { noopTracer, type Span, type Tracer, withSpan } from "./tracing"
 import type { Fetch, Logger, Token } from "./types"
+import { UbitusAdapter, UbitusTerminationError } from "./ubitus"
+import { StreamWindowHandle } from "./window"
 
 /**
  * Supported streaming service providers.
@@ -20,7 +54,7 @@ import type { Fetch, Logger, Token } from "./types"
 export enum StreamProvider {
   /** Use the GeForce Now streaming service via the SDK or as a Redirect */
   GeforceNow = "gdn",
-  /** Use the Ubitus streaming service (currently unsupported) */
+  /** Use the Ubitus streaming service, either embedded in an iframe or in its own window */
   Ubitus = "ubitus",
 }
 
@@ -48,6 +82,8 @@ export type GDNSettings = {
   versionNumber?: string
 }
 
+const DEFAULT_SESSION_REFRESH_INTERVAL_MILLIS = 30_000
+
 /** Default GDN configuration settings */
 export const DEFAULT_GDN_SETTINGS: GDNSettings = {
   partnerId: "0Xg3tEsmQZqn-zsZgSTIQqJZn5f7X7kuBxE5C9KFsys",
@@ -55,6 +91,50 @@ export const DEFAULT_GDN_SETTINGS: GDNSettings = {
   catalogClientId: "18e30568-63b3-43ae-8db6-078689b5705c",
 }
 
+/**
+ * Policy for automatically reconnecting a stream that terminated with a
+ * recoverable error. Only {@link StreamTarget.Embedded} streams are
+ * reconnected, into the same container.
+ */
+export type ReconnectPolicy = {
+  /**
+   * GFN termination codes that should trigger a reconnect.
+   * @default [TerminationErrorCode.NetworkError, TerminationErrorCode.NoNetwork]
+   */
+  retryableCodes?: number[]
+  /**
+   * Maximum number of consecutive reconnect attempts before giving up.
+   * @default 3
+   */
+  maxAttempts?: number
+  /**
+   * Delay before the first reconnect attempt.
+   * @default 1000
+   */
+  initialDelayMillis?: number
+  /**
+   * Multiplier applied to the delay after each attempt.
+   * @default 2
+   */
+  backoffMultiplier?: number
+  /**
+   * Maximum delay between reconnect attempts.
+   * @default 30000
+   */
+  maxDelayMillis?: number
+}
+
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  retryableCodes: [
+    TerminationErrorCode.NetworkError,
+    TerminationErrorCode.NoNetwork,
+  ],
+  maxAttempts: 3,
+  initialDelayMillis: 1000,
+  backoffMultiplier: 2,
+  maxDelayMillis: 30_000,
+}
+
 type ClientAuth = {
   /** The bearer token or a factory to obtain one */
   token: Token
@@ -72,6 +152,17 @@ export type ClientOptions = {
   gdn?: Partial<GDNSettings>
   /** Logger instance for debugging and monitoring */
   logger?: Logger
+  /**
+   * Messages below this level are not written to the logger. Messages of all
+   * levels are still kept for {@link StreamingClient.getLogs}.
+   * @default LogLevel.Trace
+   */
+  logLevel?: LogLevel
+  /**
+   * How many recent log messages to keep for {@link StreamingClient.getLogs}. Set to `0` to disable.
+   * @default 200
+   */
+  logBufferSize?: number
   /**
    * Ignore any browser incompatibilies and attempt to load the stream in all cases
    * @default false
@@ -82,6 +173,28 @@ export type ClientOptions = {
    * @default {@link globalThis.fetch}
    */
   fetch?: Fetch
+  /**
+   * How often the session is refreshed while streaming, keeping it alive and
+   * detecting when it has been replaced, expired, failed or deleted. Set to `0`
+   * to disable.
+   * @default 30000
+   */
+  sessionRefreshIntervalMillis?: number
+  /**
+   * Reconnect streams that terminate with a recoverable error, such as a
+   * network error, rather than terminating them. Disabled unless set.
+   */
+  reconnect?: ReconnectPolicy
+  /**
+   * Reporters that receive the {@link StreamMetrics} of each stream, once it
+   * starts and again once it terminates.
+   */
+  metricsReporters?: MetricsReporter[]
+  /**
+   * Tracer used to trace session requests and starting streams, e.g. an
+   * adapter for an OpenTelemetry tracer.
+   */
+  tracer?: Tracer
   /**
    * MSquared server that requests will be made to
    */
@@ -100,14 +213,33 @@ export type ClientOptions = {
 }
 
 /**
- * Provider-specific configuration options.
+ * Provider-specific configuration options. The config of the built-in
+ * providers is typed by the provider, while a custom provider registered with
+ * {@link StreamingClient.registerProvider} accepts any config.
+ *
+ * @template P - The name of the provider
  */
-export type ProviderOpts = {
-  /** Streaming service provider */
-  provider: StreamProvider.GeforceNow
-  /** GeForce Now specific configuration */
-  config: GeforceStreamConfig
-}
+export type ProviderOpts<P extends string = StreamProvider> =
+  P extends `${StreamProvider.GeforceNow}`
+    ? {
+        /** Streaming service provider */
+        provider: P
+        /** GeForce Now specific configuration */
+        config: GeforceStreamConfig
+      }
+    : P extends `${StreamProvider.Ubitus}`
+      ? {
+          /** Streaming service provider */
+          provider: P
+          /** Ubitus specific configuration */
+          config: UbitusStreamConfig
+        }
+      : {
+          /** A custom provider registered with {@link StreamingClient.registerProvider} */
+          provider: P
+          /** Configuration for the custom provider */
+          config: unknown
+        }
 
 /**
  * Target-specific configuration options.
@@ -118,6 +250,18 @@ export type TargetOpts =
       target: StreamTarget.Embedded
       /** DOM element or CSS selector for element in which to embed the stream */
       container: HTMLElement | string
+      /**
+       * The resolution and frame rate to stream at, either a preset or a custom profile.
+       * Currently only supported by GeForce Now.
+       * @default auto-detected from the device
+       */
+      streamProfile?: StreamProfile
+      /**
+       * The name of the zone to stream from, overriding the zone chosen by the backend.
+       * Currently only supported by GeForce Now, see {@link StreamingClient.listGeforceZones}.
+       * @default the zone chosen by the backend, otherwise the zone with the lowest latency
+       */
+      zone?: string
     }
   | {
       /** Window target configuration */
@@ -132,6 +276,11 @@ export type TargetOpts =
        * @default true
        */
       fullscreen?: boolean
+      /**
+       * How often a new window is checked to see whether it has been closed or navigated away from the stream
+       * @default 2000
+       */
+      pollIntervalMillis?: number
     }
 
 /**
@@ -147,8 +296,17 @@ export type StartStreamConfig = {
 
 /**
  * Stream configuration options
+ *
+ * @template P - The name of the provider
  */
-export type StartOptions = StartStreamConfig & ProviderOpts & TargetOpts
+export type StartOptions<P extends string = StreamProvider> =
+  // The config is the provider's, typed by the provider.
+  Omit<StartStreamConfig, "config"> &
+    ProviderOpts<P> &
+    TargetOpts & {
+      /** An optional signal used to cancel starting the stream */
+      signal?: AbortSignal
+    }
 
 /**
  * Base error class for errors returned from the StreamClient
@@ -170,6 +328,14 @@ export class StreamTerminationError extends StreamingClientError {
   override readonly name: string = "StreamTerminationError"
 }
 
+/**
+ * Error produced when starting a stream is cancelled via an {@link AbortSignal}.
+ * The abort reason is available as the `cause`.
+ */
+export class StreamAbortedError extends StreamingClientError {
+  override readonly name: string = "StreamAbortedError"
+}
+
 /**
  * Error produced when a popup/new tab is blocked by the browser
  */
@@ -177,25 +343,61 @@ export const PopupBlocked = new StreamingClientError(
   "Popup or new tab was blocked by the browser",
 )
 
-/** Error produced when requesting a stream for an unsupported provider */
+/** Error produced when requesting a stream for a provider with no registered adapter */
 export const UnsupportedProvider = new StreamingClientError(
-  "only GeforceNow provider is currently supported",
+  "no adapter is registered for the requested provider",
+)
+
+/** Error produced when a session is ready but has no configuration for a provider to stream with */
+export const MissingProviderConfig = new StreamingClientError(
+  "session is ready but has no provider config",
+)
+
+/**
+ * Error produced when handling a stream return without a `state`, or with a
+ * `state` that does not match a stream started by this app
+ */
+export const InvalidStreamReturn = new StreamingClientError(
+  "Stream return state is missing or does not match a stream started by this app",
 )
 
 /**
- * Possible states for the stream.
+ * Error produced when waiting for a state with {@link StreamingClient.waitForState} times out
  */
-export enum StreamState {
-  /** Initial state, no stream active. */
-  Idle = 0,
-  /** Stream is being initialized and connection is being established */
-  Loading = 1,
-  /** Streaming is active and running */
-  Streaming = 2,
-  /** Stream has terminated, possibly in error */
-  Terminated = 3,
-  /** Stream is in an indeterminate state */
-  Unknown = 4,
+export class StreamStateTimeoutError extends StreamingClientError {
+  override readonly name: string = "StreamStateTimeoutError"
+}
+
+/**
+ * Options for {@link StreamingClient.connect}
+ */
+export type ConnectOptions = TargetOpts & {
+  /** The Project ID for the current project */
+  projectId: string
+  /** The World ID to stream */
+  worldId: string
+  /** A provider to request instead of letting the backend choose */
+  forceProvider?: StreamProvider
+  /** An optional signal used to stop the stream, equivalent to {@link StreamSession.stop} */
+  signal?: AbortSignal
+}
+
+/**
+ * How a {@link StreamSession} ended: undefined if it was stopped or the stream
+ * ended normally, otherwise the error it ended with.
+ */
+export type StreamSessionResult =
+  | undefined
+  | StreamingClientError
+  | SessionRequestError
+
+/**
+ * The stream identified when handling the redirect back to the app after a
+ * {@link StreamTarget.Window} stream ends.
+ */
+export type StreamReturn = StreamReturnRecord & {
+  /** The error the stream terminated with, if it did not end normally */
+  error?: StreamTerminationError
 }
 
 /**
@@ -204,12 +406,22 @@ export enum StreamState {
 export type StreamStateUpdatedEvent = TypedEvent<
   "streamStateUpdated",
   | {
-      state: Exclude<StreamState, StreamState.Terminated>
+      state: Exclude<
+        StreamState,
+        StreamState.Terminated | StreamState.Reconnecting
+      >
     }
   | {
       state: StreamState.Terminated
       error?: StreamingClientError
     }
+  | {
+      state: StreamState.Reconnecting
+      /** The reconnect attempt, starting from 1 */
+      attempt: number
+      /** The error that caused the stream to terminate */
+      error: StreamingClientError
+    }
 >
 
 /**
@@ -217,7 +429,7 @@ export type StreamStateUpdatedEvent = TypedEvent<
  */
 export type SessionStateUpdatedEvent = TypedEvent<
   "sessionStateUpdated",
-  SessionState
+  SessionStateDetail
 >
 
 /**
@@ -228,10 +440,48 @@ export type StreamingClientErrorEvent = TypedEvent<
   StreamingClientError
 >
 
+/**
+ * The {@link CustomEvent} emitted when the auth token has been rejected and a
+ * new token cannot be obtained, either because the token is a string or the
+ * token factory returned a token that was also rejected. The user may need to
+ * log in again, after which the token can be updated with
+ * {@link StreamingClient.setAuthToken}.
+ */
+export type TokenExpiredEvent = TypedEvent<"tokenExpired", undefined>
+
+/**
+ * The {@link CustomEvent} emitted when the provider reports a diagnostic while
+ * the stream is running, such as a warning that the service is entering maintenance
+ */
+export type StreamDiagnosticEvent = TypedEvent<
+  "diagnostic",
+  StreamDiagnostic & {
+    /** The provider that reported the diagnostic */
+    provider: string
+  }
+>
+
+/**
+ * The {@link CustomEvent} emitted with the metrics of a stream once it starts
+ * and again once it terminates
+ */
+export type StreamMetricsEvent = TypedEvent<"metrics", StreamMetrics>
+
+type StreamSessionEvents = [
+  StreamStateUpdatedEvent,
+  SessionStateUpdatedEvent,
+  StreamingClientErrorEvent,
+  StreamDiagnosticEvent,
+  StreamMetricsEvent,
+]
+
 type StreamingClientEvents = [
   StreamStateUpdatedEvent,
   StreamingClientErrorEvent,
   SessionStateUpdatedEvent,
+  TokenExpiredEvent,
+  StreamDiagnosticEvent,
+  StreamMetricsEvent,
 ]
 
 /**
@@ -265,6 +515,8 @@ type StreamingClientEvents = [
  *
  * @fires {StreamStateUpdatedEvent} streamStateUpdated - Emitted when stream state changes
  * @fires {StreamingClientErrorEvent} error - Emitted when an error occurs during streaming
+ * @fires {StreamDiagnosticEvent} diagnostic - Emitted when the provider reports a diagnostic
+ * @fires {StreamMetricsEvent} metrics - Emitted with the metrics of a stream once it starts and terminates
  *
  * @event streamStateUpdated - Fired when the stream state changes
  * Example payload:
@@ -286,14 +538,41 @@ type StreamingClientEvents = [
  */
 export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
   public readonly skipBrowserSupportChecks: boolean
+  private readonly sessionRefreshIntervalMillis: number
+  private readonly reconnectPolicy?: Required<ReconnectPolicy>
   private readonly gdnSettings: GDNSettings
-  private readonly logger: Logger
+  private readonly logger: ContextLogger
+  private readonly logBuffer: LogBuffer
   private readonly sessionClient: SessionClient
+  private readonly providers = new Map<string, StreamProviderAdapter>()
+  private readonly metricsReporters: MetricsReporter[]
+  private readonly tracer: Tracer
+  /** Metrics for sessions that have been set up but not yet started or cleaned up, by session ID */
+  private readonly pendingMetrics = new Map<string, MetricsCollector>()
+  private readonly state = new StreamStateMachine()
+  private activeProvider?: StreamProviderAdapter
+  private activeWindow?: StreamWindowHandle
+  /** Removes the callbacks registered with the provider of the active stream */
+  private unlistenProvider?: () => void
+  /** Terminates the active stream, deletes its session and releases everything it holds */
+  private disposeStream?: (reason: string) => void
+  private activeStream = 0
+  private reconnectAttempts = 0
+  private reconnecting?: AbortController
+  /** The session started by the latest call to {@link StreamingClient.connect} */
+  private connected?: StreamSession
+  /** The IDs of the latest stream to be started */
+  private activeConfig?: StartStreamConfig
 
   constructor(opts: ClientOptions) {
     super()
 
-    this.logger = opts.logger ?? console
+    this.logBuffer = new LogBuffer(opts.logBufferSize)
+    this.logger = new ContextLogger(opts.logger ?? console, {
+      level: opts.logLevel,
+      buffer: this.logBuffer,
+    })
+    this.tracer = opts.tracer ?? noopTracer
     this.gdnSettings = {
       ...DEFAULT_GDN_SETTINGS,
       ...opts.gdn,
@@ -302,9 +581,47 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
       host: opts.server?.host ?? `${opts.auth.organizationId}.m2worlds.io`,
       protocol: opts.server?.protocol,
       fetch: opts.fetch,
+      logger: this.logger,
+      tracer: this.tracer,
+      onTokenExpired: () => {
+        this.emit("tokenExpired")
+      },
       ...opts.auth,
     })
     this.skipBrowserSupportChecks = opts.skipBrowserSupportChecks ?? false
+    this.sessionRefreshIntervalMillis =
+      opts.sessionRefreshIntervalMillis ??
+      DEFAULT_SESSION_REFRESH_INTERVAL_MILLIS
+    this.metricsReporters = opts.metricsReporters ?? []
+    this.reconnectPolicy = opts.reconnect && {
+      ...DEFAULT_RECONNECT_POLICY,
+      ...opts.reconnect,
+    }
+
+    this.registerProvider(
+      StreamProvider.GeforceNow,
+      new GFNAdapter(this.gdnSettings),
+    )
+    this.registerProvider(
+      StreamProvider.Ubitus,
+      new UbitusAdapter({
+        fetch: opts.fetch ?? globalThis.fetch.bind(globalThis),
+        logger: this.logger,
+      }),
+    )
+  }
+
+  /**
+   * Registers an adapter for a streaming provider, replacing any adapter
+   * previously registered for the same provider.
+   * @param provider The provider name, matching the `provider` passed to {@link StreamingClient.start}
+   * @param adapter The adapter used to start and stop streams for the provider
+   */
+  registerProvider<Config>(
+    provider: StreamProvider | string,
+    adapter: StreamProviderAdapter<Config>,
+  ): void {
+    this.providers.set(provider, adapter as StreamProviderAdapter)
   }
 
   getBrowserSupport(): Record<StreamProvider, boolean> {
@@ -315,21 +632,144 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
     }
   }
 
+  /**
+   * Lists the GeForce Now zones that embedded streams can be started in.
+   * @returns The zones, or an error if the GFN client could not be initialized
+   * @throws {never} This method catches all errors and returns them
+   */
+  async listGeforceZones(): Promise<
+    GFNZone[] | StreamingClientError | GFNClientError
+  > {
+    const adapter = this.providers.get(StreamProvider.GeforceNow)
+    if (!(adapter instanceof GFNAdapter)) {
+      return UnsupportedProvider
+    }
+    return adapter.listZones()
+  }
+
+  /**
+   * Gets the IDs of the latest stream to be started and of its session, which
+   * change when the stream is reconnected.
+   * @returns the IDs, or undefined if no stream has been started
+   */
+  getActiveStream(): StartStreamConfig | undefined {
+    return this.activeConfig && { ...this.activeConfig }
+  }
+
+  /**
+   * Gets the current state of the stream and its session.
+   */
+  getState(): StateSnapshot {
+    return this.state.getState()
+  }
+
+  /**
+   * Waits until the stream or the session reaches a state.
+   * @param state The {@link StreamState} or {@link SessionState} to wait for
+   * @param signal An optional signal used to stop waiting
+   * @param timeoutMillis How long to wait before giving up, waits indefinitely if not set
+   * @returns undefined once the state is reached, which is immediately if it is the current state, a
+   * {@link StreamAbortedError} if waiting was aborted, or a {@link StreamStateTimeoutError} if it timed out
+   * @throws {never} This method catches all errors and returns them
+   */
+  async waitForState(
+    state: StreamState | SessionState,
+    {
+      signal,
+      timeoutMillis,
+    }: { signal?: AbortSignal; timeoutMillis?: number } = {},
+  ): Promise<undefined | StreamAbortedError | StreamStateTimeoutError> {
+    const matches = (snapshot: StateSnapshot) =>
+      typeof state === "number"
+        ? snapshot.stream === state
+        : snapshot.session === state
+
+    if (matches(this.state.getState())) {
+      return
+    }
+
+    const aborted = () =>
+      new StreamAbortedError("waiting for state aborted", {
+        cause: signal?.reason,
+      })
+    if (signal?.aborted) {
+      return aborted()
+    }
+
+    return new Promise((resolve) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined
+      const finish = (
+        result: undefined | StreamAbortedError | StreamStateTimeoutError,
+      ) => {
+        unsubscribe()
+        clearTimeout(timeout)
+        signal?.removeEventListener("abort", onAbort)
+        resolve(result)
+      }
+      const onAbort = () => finish(aborted())
+
+      const unsubscribe = this.state.subscribe((snapshot) => {
+        if (matches(snapshot)) {
+          finish(undefined)
+        }
+      })
+      signal?.addEventListener("abort", onAbort, { once: true })
+      if (timeoutMillis !== undefined) {
+        timeout = setTimeout(
+          () =>
+            finish(
+              new StreamStateTimeoutError(
+                `timed out waiting for state ${typeof state === "number" ? StreamState[state] : state}`,
+              ),
+            ),
+          timeoutMillis,
+        )
+      }
+    })
+  }
+
+  /**
+   * Gets the most recent log messages, with secrets redacted, e.g. to attach to
+   * a problem report.
+   * @returns The buffered messages, oldest first
+   */
+  getLogs(): LogEntry[] {
+    return this.logBuffer.entries()
+  }
+
   setAuthToken(token: Token): void {
     this.sessionClient.setAuthToken(token)
   }
 
+  /**
+   * Creates a session for the world, waiting in the queue until it is ready to stream.
+   * @param projectId The Project ID for the current project.
+   * @param worldId The World ID to stream.
+   * @param forceProvider An optional provider to request instead of letting the backend choose.
+   * @param signal An optional signal used to cancel the setup. The session is deleted if it was already created.
+   * @returns The configuration required to start the stream, a {@link SessionAbortedError} if the setup was aborted,
+   * a {@link SessionTerminalStateError} such as {@link SessionDeletedError} if the session ended while waiting, or
+   * another {@link SessionRequestError} if the session could not be created.
+   * @throws {never} This method catches all errors and returns them
+   * @emits sessionStateUpdated
+   */
   async setup({
     projectId,
     worldId,
     forceProvider,
+    signal,
   }: {
     projectId: string
     worldId: string
     forceProvider?: StreamProvider
-  }): Promise<StartStreamConfig | undefined> {
+    signal?: AbortSignal
+  }): Promise<StartStreamConfig | SessionAbortedError | SessionRequestError> {
     const compat = getStreamCompat(this.skipBrowserSupportChecks)
     const streamId = uuidv7()
+    this.state.resetSession()
+    const progress = new SessionProgressTracker()
+    const metrics = new MetricsCollector(streamId)
+    metrics.mark(StreamMilestone.SetupRequested)
 
     const session = await this.sessionClient.createSession({
       projectId,
@@ -339,15 +779,19 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
         forceProvider,
       },
       worldId,
-      onStateChange: (state) => {
-        this.emit("sessionStateUpdated", state)
+      onUpdate: (session) => {
+        metrics.markSessionState(session.state as SessionState)
+        this.updateSessionState(progress.update(session))
       },
+      signal,
     })
 
-    if (!session) {
-      return undefined
+    if (errors.is(session)) {
+      return session
     }
 
+    this.pendingMetrics.set(session.sessionId, metrics)
+
     return {
       streamId,
       projectId,
@@ -357,65 +801,270 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
     }
   }
 
+  /**
+   * Sets up a session for the world and starts streaming it once it is ready,
+   * using the provider chosen by the backend. The session is deleted when the
+   * stream ends or is stopped. Any session previously started with `connect`
+   * is stopped.
+   * @returns The session, which can be used to follow and stop the stream
+   * @throws {never} This method does not throw any errors.
+   */
+  connect(opts: ConnectOptions): StreamSession {
+    this.connected?.stop()
+    const session = new StreamSession(this, opts)
+    this.connected = session
+    session.done.then(() => {
+      if (this.connected === session) {
+        this.connected = undefined
+      }
+    })
+    return session
+  }
+
   /**
    * Requests a new streaming session.
    * @param {StartOptions} options - Configuration options for the streaming session
-   * @returns {Promise<Window | HTMLElement | StreamingClientError>} A Promise that resolves to the stream container or an error
+   * @returns {Promise<StreamWindowHandle | HTMLElement | StreamingClientError>} A Promise that resolves to a handle to the stream window, the stream container or an error
    * @throws {never} This method catches all errors and returns them
    * @emits streamStateUpdated
    * @emits error
+   * @emits diagnostic
    */
-  async start({
-    streamId,
-    projectId,
-    worldId,
-    sessionId,
-    provider,
-    ...opts
-  }: StartOptions): Promise<Window | HTMLElement | StreamingClientError> {
-    if (provider !== StreamProvider.GeforceNow) {
+  async start<P extends string = StreamProvider>(
+    opts: StartOptions<P>,
+  ): Promise<StreamWindowHandle | HTMLElement | StreamingClientError> {
+    return withSpan(
+      this.tracer,
+      "stream.start",
+      {
+        attributes: {
+          "m2.provider": opts.provider,
+          "m2.target": StreamTarget[opts.target],
+          "m2.stream_id": opts.streamId,
+          "m2.session_id": opts.sessionId,
+        },
+      },
+      (span) => this.startStream(opts, span),
+    )
+  }
+
+  private async startStream(
+    opts: StartOptions<string>,
+    span: Span,
+  ): Promise<StreamWindowHandle | HTMLElement | StreamingClientError> {
+    const {
+      streamId,
+      projectId,
+      worldId,
+      sessionId,
+      provider,
+      config,
+      signal,
+    } = opts
+
+    const adapter = this.providers.get(provider)
+    if (!adapter) {
       return UnsupportedProvider
     }
 
-    this.emit("streamStateUpdated", { state: StreamState.Loading })
+    if (signal?.aborted) {
+      const error = new StreamAbortedError("stream start aborted", {
+        cause: signal.reason,
+      })
+      await this.cleanup({ projectId, worldId, sessionId, reason: error })
+      return error
+    }
+
+    const metrics =
+      this.pendingMetrics.get(sessionId) ?? new MetricsCollector(streamId)
+    this.pendingMetrics.delete(sessionId)
+    metrics.mark(StreamMilestone.StartRequested)
+    const logger = this.logger.withContext({
+      streamId,
+      sessionId,
+      projectId,
+      worldId,
+    })
+    const mark = (milestone: StreamMilestone) => metrics.mark(milestone)
+
+    // Callbacks from previous streams are ignored once a new stream starts.
+    const stream = ++this.activeStream
+    this.disposeStream?.("Stream replaced by a new stream")
+    this.activeProvider = adapter
+    this.activeConfig = { streamId, projectId, worldId, sessionId }
+
+    this.updateStreamState({ state: StreamState.Loading })
 
     let needsCleanup = true
-    const onTerminated = (error?: Error) => {
-      this.emit("error", error)
-      this.emit("streamStateUpdated", { state: StreamState.Terminated, error })
+    let terminated = false
+    let watcher: AbortController | undefined
+    let windowHandle: StreamWindowHandle | undefined
+    let stopWindow: (() => void) | undefined
+    const reportTerminated = () => {
+      metrics.mark(StreamMilestone.Terminated)
+      this.reportMetrics(metrics)
+    }
+    const onTerminated = (error?: Error, reason?: string) => {
+      if (terminated) {
+        return
+      }
+      terminated = true
+
+      reportTerminated()
+      watcher?.abort()
+      // A stream that has been replaced by a newer stream is still cleaned up,
+      // but no longer reports its state, as the newer stream has already started loading.
+      if (stream === this.activeStream) {
+        this.updateStreamState({ state: StreamState.Terminated, error })
+      }
       if (needsCleanup) {
-        this.cleanup({ projectId, worldId, sessionId, reason: error })
+        this.cleanup({
+          projectId,
+          worldId,
+          sessionId,
+          reason: error ?? reason,
+        })
         needsCleanup = false
       }
     }
 
+    const onStreaming = () => {
+      metrics.mark(StreamMilestone.StreamStarted)
+      this.reportMetrics(metrics)
+      this.reconnectAttempts = 0
+      this.updateStreamState({ state: StreamState.Streaming })
+      watcher ??= this.watchSession(
+        { projectId, worldId, sessionId },
+        (cause) => {
+          // The session has already ended, so there is nothing to clean up.
+          needsCleanup = false
+          onTerminated(new StreamTerminationError("Session ended", { cause }))
+          adapter.stop()
+          windowHandle?.close()
+        },
+      )
+    }
+
+    const callbacks = {
+      onStarted: () => {
+        if (stream === this.activeStream) {
+          onStreaming()
+        }
+      },
+      onTerminated: (cause?: Error) => {
+        // The provider may report a termination more than once.
+        if (stream !== this.activeStream || terminated) {
+          return
+        }
+
+        // A termination without a cause is a normal end, e.g. by the server.
+        const error =
+          cause &&
+          new StreamTerminationError("Stream terminated with error", { cause })
+
+        if (
+          error &&
+          opts.target === StreamTarget.Embedded &&
+          this.canReconnect(error)
+        ) {
+          // The session is deleted by the reconnect, which starts a new stream.
+          terminated = true
+          reportTerminated()
+          watcher?.abort()
+          this.reconnect(opts, error).catch((e) => {
+            this.reconnectAttempts = 0
+            this.updateStreamState({
+              state: StreamState.Terminated,
+              error: new StreamTerminationError("Failed to reconnect stream", {
+                cause: e,
+              }),
+            })
+          })
+          return
+        }
+
+        this.reconnectAttempts = 0
+        onTerminated(error)
+      },
+      onDiagnostic: (diagnostic: StreamDiagnostic) => {
+        if (stream === this.activeStream) {
+          this.emit("diagnostic", { ...diagnostic, provider })
+        }
+      },
+    }
+
+    // Only the callbacks for the latest stream are kept registered.
+    this.disposeStream = (reason) => {
+      this.unlistenProvider?.()
+      this.unlistenProvider = undefined
+      if (!terminated) {
+        adapter.stop()
+      }
+      stopWindow?.()
+      windowHandle?.close()
+      onTerminated(undefined, reason)
+    }
+
     switch (opts.target) {
       case StreamTarget.Window: {
-        const { fullscreen = true, config, container } = opts
+        const { fullscreen = true, container, pollIntervalMillis } = opts
         const target = `_stream:${streamId}`
-        const href = buildGfnUrl(this.gdnSettings.partnerId, config, {
-          fullscreen,
+        // A return can only be handled for providers that redirect back to the app.
+        const state = adapter.parseWindowReturn
+          ? saveStreamReturn({
+              provider,
+              streamId,
+              sessionId,
+              projectId,
+              worldId,
+            })
+          : undefined
+        const href = adapter.buildWindowUrl(config, { fullscreen, state })
+
+        const result = this.open({
+          container,
+          href,
+          target,
+          pollIntervalMillis,
         })
-        const result = this.open({ container, href, target })
 
         if (errors.is(result)) {
           if (errors.is(PopupBlocked)) {
-            this.logger?.warn(
+            logger.warn(
               "Popup was blocked. We cannot monitor the new window for close events or close it via the SDK",
             )
           }
           onTerminated(result)
         } else {
-          this.emit("streamStateUpdated", {
-            state: StreamState.Streaming,
+          windowHandle = result
+          this.activeWindow = result
+          result.closed.then((reason) => {
+            stopWindow?.()
+            if (this.activeWindow === result) {
+              this.activeWindow = undefined
+            }
+            onTerminated(undefined, `Stream window ${reason}`)
           })
+
+          onStreaming()
+
+          // Any work the provider does in this page can only run while the
+          // page is still loaded, which is not the case when the current window
+          // is redirected.
+          if (adapter.startWindow && !container) {
+            this.unlistenProvider = adapter.listen({
+              onStarted: () => {},
+              onTerminated: callbacks.onTerminated,
+            })
+            stopWindow = adapter.startWindow(config)
+          }
         }
 
         return result
       }
 
       case StreamTarget.Embedded: {
-        const { config, container } = opts
+        const { container, streamProfile, zone } = opts
         const element = resolveContainer(container)
 
         if (element instanceof Error) {
@@ -423,38 +1072,60 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
           return element
         }
 
-        const gfnClient = await getOrInitClient({
-          settings: this.gdnSettings,
-        })
-
-        if (errors.is(gfnClient)) {
-          onTerminated(gfnClient)
-          return gfnClient
+        const aborted = () => {
+          const error = new StreamAbortedError("stream start aborted", {
+            cause: signal?.reason,
+          })
+          onTerminated(error)
+          return error
         }
 
-        gfnClient.listen({
-          onStarted: () => {
-            this.emit("streamStateUpdated", {
-              state: StreamState.Streaming,
-            })
-          },
-          onTerminated(cause?: GFNTerminationError) {
-            onTerminated(
-              new StreamTerminationError("Stream terminated with error", {
-                cause,
-              }),
-            )
-          },
+        // A newer stream may replace this one while the provider is busy, in
+        // which case this stream has already been terminated and cleaned up.
+        const replaced = () =>
+          new StreamAbortedError("stream start aborted", {
+            cause: "Stream replaced by a new stream",
+          })
+
+        const loadError = await adapter.load({
+          mark,
+          tracer: this.tracer,
+          parent: span,
         })
+        if (stream !== this.activeStream) {
+          return replaced()
+        }
+        if (errors.is(loadError)) {
+          onTerminated(loadError)
+          return loadError
+        }
+        if (signal?.aborted) {
+          return aborted()
+        }
+
+        this.unlistenProvider = adapter.listen(callbacks)
 
-        const result = await gfnClient.start(element, {
-          cmsId: Number.parseInt(config.cmsId, 10),
-          nonce: config.nonce,
+        const result = await adapter.startEmbedded(element, config, {
+          streamProfile,
+          zone,
+          mark,
         })
+        if (stream !== this.activeStream) {
+          // The provider is only stopped if the newer stream has not started with it yet.
+          if (this.activeProvider !== adapter || !this.unlistenProvider) {
+            adapter.stop()
+          }
+          return replaced()
+        }
         if (errors.is(result)) {
           onTerminated(result)
           return result
         }
+        if (signal?.aborted) {
+          const error = aborted()
+          adapter.stop()
+          return error
+        }
 
         return element
       }
@@ -463,23 +1134,87 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
 
   /**
    * Stops the current streaming session.
-   * @returns {void | Error} Returns void if successful, or an error if the client cannot be retrieved
+   * @returns {void} Returns void.
+   * @throws {never} This method does not throw any errors.
+   */
+  stop(): undefined {
+    this.reconnecting?.abort()
+    this.activeProvider?.stop()
+    this.activeWindow?.close()
+  }
+
+  /**
+   * Releases everything the client holds: the active stream is stopped and its
+   * session deleted, listeners registered with providers are removed and any
+   * timers are cleared. Providers are disposed, so a new client can be
+   * created afterwards with different settings, e.g. different {@link GDNSettings}.
+   * @throws {never} This method does not throw any errors.
+   */
+  dispose(): undefined {
+    this.connected?.stop()
+    this.connected = undefined
+    this.reconnecting?.abort()
+    this.reconnecting = undefined
+    this.disposeStream?.("Streaming client disposed")
+    this.disposeStream = undefined
+    this.activeConfig = undefined
+    this.activeWindow = undefined
+    this.activeProvider = undefined
+    // Ignore any late callbacks from the stream.
+    this.activeStream++
+
+    for (const adapter of this.providers.values()) {
+      adapter.dispose?.()
+    }
+    this.pendingMetrics.clear()
+  }
+
+  /**
+   * Handles the redirect back to the app after a {@link StreamTarget.Window}
+   * stream ends. The `state` in the URL is verified against the streams started
+   * by this app, and the session of the matching stream is cleaned up with any
+   * termination error carried by the redirect.
+   * @param url The URL that was redirected to, defaults to the current location
+   * @returns {Promise<StreamReturn | StreamingClientError>} The stream that ended, or {@link InvalidStreamReturn}
+   * if the URL is not valid or does not return from a stream started by this app
    * @throws {never} This method catches all errors and returns them
+   * @emits streamStateUpdated
    */
-  stop(): undefined | Error {
-    const client = getClient()
-    if (errors.is(client, GFNClientNotInitialized)) {
-      return // Silently ignore
+  async handleStreamReturn(
+    url?: string | URL,
+  ): Promise<StreamReturn | StreamingClientError> {
+    let params: URLSearchParams
+    try {
+      // There is no current location outside of a browser.
+      params = new URL(url ?? globalThis.location.href).searchParams
+    } catch {
+      return InvalidStreamReturn
     }
-    if (errors.is(client)) {
-      return client
+    const state = params.get("state")
+    const record = state ? takeStreamReturn(state) : undefined
+    if (!record) {
+      return InvalidStreamReturn
     }
-    client.stop()
+
+    const cause = this.providers
+      .get(record.provider)
+      ?.parseWindowReturn?.(params)
+    const error =
+      cause &&
+      new StreamTerminationError("Stream terminated with error", { cause })
+
+    await this.cleanup({
+      ...record,
+      reason: error ?? "Stream window returned",
+    })
+    this.updateStreamState({ state: StreamState.Terminated, error })
+
+    return { ...record, error }
   }
 
   /**
    * Cleans up the remote streaming session.
-   * @returns {void} Returns void.
+   * @returns {void | SessionRequestError} Returns void if successful, or an error if the session could not be deleted.
    * @param projectId The Project ID for the current project.
    * @param worldId The World ID for the current session.
    * @param sessionId The Session ID for the current session.
@@ -496,15 +1231,23 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
     worldId: string
     sessionId: string
     reason?: Error | string
-  }): Promise<undefined> {
+  }): Promise<undefined | SessionRequestError> {
+    // The session will not be started, if it has not been already.
+    this.pendingMetrics.delete(sessionId)
+
     // Delete remote session with a useful deletion reason.
     let deletionReason = reason instanceof Error ? reason.message : reason
     const gfnTerminationError = errors.as(reason, GFNTerminationError)
     if (gfnTerminationError) {
       const message = `${gfnTerminationError.message || deletionReason}`
-      const hexCode = `0x${gfnTerminationError.code.toString(16).toUpperCase()}`
+      const hexCode = formatCode(gfnTerminationError.code)
       deletionReason = `GFN: ${message} (reason=${gfnTerminationError.reason}, code=${hexCode})`
     }
+    const ubitusTerminationError = errors.as(reason, UbitusTerminationError)
+    if (ubitusTerminationError) {
+      const message = `${ubitusTerminationError.message || deletionReason}`
+      deletionReason = `Ubitus: ${message} (status=${ubitusTerminationError.status})`
+    }
 
     return await this.sessionClient.deleteSession({
       projectId,
@@ -514,23 +1257,239 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
     })
   }
 
+  /**
+   * Moves the stream to a new state, emitting the update only if the transition
+   * is valid. Terminating with an error also emits the error.
+   * @emits streamStateUpdated
+   * @emits error
+   */
+  private updateStreamState(detail: StreamStateUpdatedEvent["detail"]) {
+    const from = this.state.getState().stream
+    if (!this.state.transitionStream(detail.state)) {
+      this.logger.debug("Ignoring invalid stream state transition", {
+        from: StreamState[from],
+        to: StreamState[detail.state],
+      })
+      return
+    }
+
+    if (detail.state === StreamState.Terminated && detail.error) {
+      this.emit("error", detail.error)
+    }
+    this.emit("streamStateUpdated", detail)
+  }
+
+  /**
+   * Records the state of the session, emitting the update unless the session has already ended.
+   * @emits sessionStateUpdated
+   */
+  private updateSessionState(detail: SessionStateDetail) {
+    if (this.state.updateSession(detail.state)) {
+      this.emit("sessionStateUpdated", detail)
+    }
+  }
+
+  /**
+   * Emits the metrics collected for a stream and forwards them to the reporters.
+   * @emits metrics
+   */
+  private reportMetrics(collector: MetricsCollector) {
+    const metrics = collector.collect()
+    this.emit("metrics", metrics)
+
+    for (const reporter of this.metricsReporters) {
+      // Reporters must not be able to break the stream, whether they throw or reject.
+      Promise.resolve()
+        .then(() => reporter.report(metrics))
+        .catch((e) =>
+          this.logger
+            .withContext({ streamId: metrics.streamId })
+            .warn("Metrics reporter failed", e),
+        )
+    }
+  }
+
+  /**
+   * Whether a terminated stream should be reconnected, according to the reconnect policy.
+   */
+  private canReconnect(error: StreamingClientError): boolean {
+    if (!this.reconnectPolicy) {
+      return false
+    }
+
+    const { retryableCodes, maxAttempts } = this.reconnectPolicy
+    const code = errors.as(error, GFNTerminationError)?.code
+    return (
+      code !== undefined &&
+      retryableCodes.includes(code) &&
+      this.reconnectAttempts < maxAttempts
+    )
+  }
+
+  /**
+   * Reconnects a terminated embedded stream by deleting its session, then
+   * setting up and starting a new stream into the same container after a
+   * backoff delay.
+   * @emits streamStateUpdated
+   */
+  private async reconnect(
+    opts: StartOptions<string> & { target: StreamTarget.Embedded },
+    error: StreamingClientError,
+  ): Promise<void> {
+    invariant(this.reconnectPolicy, "reconnect policy should be set")
+    const { initialDelayMillis, backoffMultiplier, maxDelayMillis } =
+      this.reconnectPolicy
+    const {
+      projectId,
+      worldId,
+      sessionId,
+      provider,
+      container,
+      streamProfile,
+      zone,
+      signal,
+    } = opts
+
+    const attempt = ++this.reconnectAttempts
+    const delayMillis = Math.min(
+      initialDelayMillis * backoffMultiplier ** (attempt - 1),
+      maxDelayMillis,
+    )
+
+    const controller = new AbortController()
+    this.reconnecting = controller
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), {
+      once: true,
+    })
+
+    this.updateStreamState({
+      state: StreamState.Reconnecting,
+      attempt,
+      error,
+    })
+
+    await this.cleanup({ projectId, worldId, sessionId, reason: error })
+    await new Promise<void>((res) => {
+      const timeout = globalThis.setTimeout(res, delayMillis)
+      controller.signal.addEventListener(
+        "abort",
+        () => {
+          globalThis.clearTimeout(timeout)
+          res()
+        },
+        { once: true },
+      )
+    })
+
+    const config = controller.signal.aborted
+      ? undefined
+      : await this.setup({
+          projectId,
+          worldId,
+          forceProvider: provider as StreamProvider,
+          signal: controller.signal,
+        })
+
+    if (this.reconnecting === controller) {
+      this.reconnecting = undefined
+    }
+
+    if (!config || controller.signal.aborted) {
+      this.reconnectAttempts = 0
+      this.updateStreamState({ state: StreamState.Terminated })
+      return
+    }
+
+    if (errors.is(config)) {
+      this.reconnectAttempts = 0
+      const reconnectError = new StreamTerminationError(
+        "Failed to reconnect stream",
+        { cause: config },
+      )
+      this.updateStreamState({
+        state: StreamState.Terminated,
+        error: reconnectError,
+      })
+      return
+    }
+
+    await this.start({
+      ...config,
+      provider: config.config?.name ?? provider,
+      config: config.config,
+      target: StreamTarget.Embedded,
+      container,
+      streamProfile,
+      zone,
+      signal,
+    })
+  }
+
+  /**
+   * Watches the session while the stream is running, emitting the session
+   * state if it ends. Failed refreshes do not end the stream, a rejected token
+   * is reported as `tokenExpired` and the session is refreshed again.
+   * @param onEnded Called with the state the session ended in
+   * @returns a controller used to stop watching, or undefined if watching is disabled
+   */
+  private watchSession(
+    {
+      projectId,
+      worldId,
+      sessionId,
+    }: { projectId: string; worldId: string; sessionId: string },
+    onEnded: (error: SessionTerminalStateError) => void,
+  ): AbortController | undefined {
+    if (this.sessionRefreshIntervalMillis <= 0) {
+      return
+    }
+
+    const controller = new AbortController()
+    const progress = new SessionProgressTracker()
+
+    this.sessionClient
+      .watchSession({
+        projectId,
+        worldId,
+        sessionId,
+        intervalMillis: this.sessionRefreshIntervalMillis,
+        signal: controller.signal,
+        onUpdate: (session) => {
+          const detail = progress.update(session)
+          if (detail.state !== SessionState.Active) {
+            this.updateSessionState(detail)
+          }
+        },
+      })
+      .then((error) => {
+        if (!errors.is(error, SessionAbortedError)) {
+          onEnded(error)
+        }
+      })
+
+    return controller
+  }
+
   /**
    * Opens a new window or redirects existing window for streaming.
    * @param {Object} opts - Options for opening the stream window
    * @param {Window} [opts.container] - Existing window to use
    * @param {string} opts.href - URL to load
    * @param {string} opts.target - Target window name
-   * @returns {Window | typeof PopupBlocked} Window object or PopupBlocked error
+   * @param {number} [opts.pollIntervalMillis] - How often a new window is checked for being closed or navigated
+   * @returns {StreamWindowHandle | typeof PopupBlocked} Handle to the window or PopupBlocked error
    */
   private open(opts: {
     container?: Window
     href: string
     target: string
-  }): Window | typeof PopupBlocked {
-    const { container, href, target } = opts
+    pollIntervalMillis?: number
+  }): StreamWindowHandle | typeof PopupBlocked {
+    const { container, href, target, pollIntervalMillis } = opts
     if (container) {
       container.location.href = href
-      return container
+      // The page is unloaded by the redirect, so the window cannot be monitored.
+      return new StreamWindowHandle(container, { monitor: false })
     }
 
     const tab = globalThis.open(href, target)
@@ -539,16 +1498,199 @@ export class StreamingClient extends TypedEventTarget<StreamingClientEvents> {
       return PopupBlocked
     }
 
-    const interval = setInterval(() => {
-      if (tab.closed) {
-        clearInterval(interval)
-        this.emit("streamStateUpdated", {
-          state: StreamState.Terminated,
-        })
+    return new StreamWindowHandle(tab, { pollIntervalMillis })
+  }
+}
+
+/**
+ * A stream started with {@link StreamingClient.connect}, from waiting in the
+ * queue for a session through to the stream ending and its session being deleted.
+ *
+ * @example
+ * ```typescript
+ * const session = client.connect({
+ *   projectId,
+ *   worldId,
+ *   target: StreamTarget.Embedded,
+ *   container: "#game-container",
+ * })
+ * session.events.on("sessionStateUpdated", (event) => {
+ *   console.log("Queue position:", event.detail.queuePosition)
+ * })
+ *
+ * const error = await session.done
+ * ```
+ */
+export class StreamSession {
+  /** The client's events for this stream, emitted until the session is done */
+  readonly events = new TypedEventTarget<StreamSessionEvents>()
+  /** Resolves once the stream has ended, with the error it ended with if any */
+  readonly done: Promise<StreamSessionResult>
+
+  private readonly controller = new AbortController()
+  private current: StateSnapshot = { stream: StreamState.Loading }
+  private startConfig?: StartStreamConfig
+  private streaming = false
+  private finished = false
+
+  constructor(
+    private readonly client: StreamingClient,
+    opts: ConnectOptions,
+  ) {
+    const forward = (event: StreamSessionEvents[number]) => {
+      if (this.finished) {
+        return
       }
-    }, 2000)
+      if (event.type === "streamStateUpdated") {
+        this.current = { ...this.current, stream: event.detail.state }
+        // A reconnected stream has a new session.
+        if (event.detail.state === StreamState.Loading) {
+          this.startConfig = client.getActiveStream() ?? this.startConfig
+        }
+      }
+      if (event.type === "sessionStateUpdated") {
+        this.current = { ...this.current, session: event.detail.state }
+      }
+      // An event cannot be dispatched again while it is being dispatched.
+      this.events.dispatchEvent(
+        new CustomEvent(event.type, {
+          detail: event.detail,
+        }) as StreamSessionEvents[number],
+      )
+    }
+    const types: StreamSessionEvents[number]["type"][] = [
+      "streamStateUpdated",
+      "sessionStateUpdated",
+      "error",
+      "diagnostic",
+      "metrics",
+    ]
+    for (const type of types) {
+      client.addEventListener<typeof type>(type, forward)
+    }
 
-    return tab
+    opts.signal?.addEventListener("abort", () => this.stop(), { once: true })
+    if (opts.signal?.aborted) {
+      this.stop()
+    }
+
+    this.done = this.run(opts).then((result) => {
+      this.finished = true
+      this.current = { ...this.current, stream: StreamState.Terminated }
+      for (const type of types) {
+        client.removeEventListener<typeof type>(type, forward)
+      }
+      return result
+    })
+  }
+
+  /**
+   * The current state of the stream and its session.
+   */
+  get state(): StateSnapshot {
+    return { ...this.current }
+  }
+
+  /** The ID of the stream, once its session has been created. Changes when the stream is reconnected. */
+  get streamId(): string | undefined {
+    return this.startConfig?.streamId
+  }
+
+  /** The ID of the session, once it has been created. Changes when the stream is reconnected. */
+  get sessionId(): string | undefined {
+    return this.startConfig?.sessionId
+  }
+
+  /**
+   * Stops the stream, or stops waiting in the queue if it has not started yet.
+   * The session is deleted, and {@link StreamSession.done} resolves once the stream has ended.
+   * @throws {never} This method does not throw any errors.
+   */
+  stop(): undefined {
+    if (this.controller.signal.aborted || this.finished) {
+      return
+    }
+    this.controller.abort("Stream session stopped")
+    if (this.streaming) {
+      this.client.stop()
+    }
+  }
+
+  private async run({
+    projectId,
+    worldId,
+    forceProvider,
+    signal: _,
+    ...target
+  }: ConnectOptions): Promise<StreamSessionResult> {
+    const { signal } = this.controller
+    const config = await this.client.setup({
+      projectId,
+      worldId,
+      forceProvider,
+      signal,
+    })
+    if (errors.is(config)) {
+      return this.result(config)
+    }
+    this.startConfig = config
+
+    const provider = config.config?.name
+    if (!provider) {
+      await this.client.cleanup({ ...config, reason: MissingProviderConfig })
+      return MissingProviderConfig
+    }
+
+    // Listening before the stream starts, as it may terminate while starting.
+    let onState: (event: StreamStateUpdatedEvent) => void = () => {}
+    const terminated = new Promise<StreamingClientError | undefined>(
+      (resolve) => {
+        onState = (event) => {
+          if (event.detail.state === StreamState.Terminated) {
+            this.client.removeEventListener("streamStateUpdated", onState)
+            resolve(event.detail.error)
+          }
+        }
+        this.client.addEventListener("streamStateUpdated", onState)
+      },
+    )
+
+    this.streaming = true
+    const result = await this.client.start({
+      ...config,
+      ...target,
+      provider,
+      config: config.config,
+      signal,
+    } as StartOptions<string>)
+    if (errors.is(result)) {
+      // The stream may not have terminated, e.g. if the provider is not supported.
+      this.client.removeEventListener("streamStateUpdated", onState)
+    }
+    if (errors.is(result, UnsupportedProvider)) {
+      await this.client.cleanup({ ...config, reason: result })
+    }
+    if (errors.is(result)) {
+      return this.result(result)
+    }
+
+    return this.result(await terminated)
+  }
+
+  /**
+   * Stopping the session is not an error, even though it aborts setting up or
+   * starting the stream, or the stream is reported as terminated by the provider.
+   */
+  private result(error?: StreamingClientError | SessionRequestError) {
+    if (
+      this.controller.signal.aborted &&
+      (errors.is(error, SessionAbortedError) ||
+        errors.is(error, StreamAbortedError) ||
+        errors.is(error, StreamTerminationError))
+    ) {
+      return undefined
+    }
+    return error
   }
 }
 
@@ -573,3 +1715,34 @@ function resolveContainer(
 }
 
 export { GFNTerminationError } from "./gfn"
+export {
+  type CustomStreamProfile,
+  type StreamProfile,
+  StreamProfilePreset,
+} from "./gfn/profile"
+export type { GFNZone } from "./gfn/zones"
+export {
+  type MetricsReporter,
+  type StreamMetrics,
+  StreamMilestone,
+  type StreamMilestones,
+} from "./metrics"
+export {
+  SessionAbortedError,
+  SessionAuthError,
+  SessionClientError,
+  SessionDeletedError,
+  SessionErrorCategory,
+  SessionExpiredError,
+  SessionFailedError,
+  SessionNetworkError,
+  SessionNotFoundError,
+  SessionRateLimitedError,
+  SessionReplacedError,
+  SessionRequestError,
+  SessionServerError,
+  SessionTerminalStateError,
+} from "./session"
+export { type StateSnapshot, StreamState } from "./state"
+export { UbitusTerminationError } from "./ubitus"
+export { StreamWindowCloseReason, StreamWindowHandle } from "./window"
@@ -0,0 +1,214 @@
+import { definePixelStreamElement, PixelStreamElement } from "./element"
+import { SessionState } from "./session"
+import { StreamState } from "./state"
+import { fakeAdapter, mockLogger } from "./test-utils"
+import { MockSessionServer } from "./testing"
+
+describe("definePixelStreamElement", () => {
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, "customElements")
+  })
+
+  it("should do nothing if custom elements are not supported", () => {
+    expect(() => definePixelStreamElement()).not.toThrow()
+  })
+
+  it("should define the element once per tag name", () => {
+    const defined = new Map<string, CustomElementConstructor>()
+    Object.defineProperty(globalThis, "customElements", {
+      value: {
+        get: (name: string) => defined.get(name),
+        define: (name: string, element: CustomElementConstructor) =>
+          defined.set(name, element),
+      },
+      configurable: true,
+    })
+
+    definePixelStreamElement()
+    const element = defined.get("m2-pixel-stream")
+    definePixelStreamElement()
+    definePixelStreamElement("custom-stream")
+
+    expect(element?.prototype).toBeInstanceOf(PixelStreamElement)
+    expect(defined.get("m2-pixel-stream")).toBe(element)
+    expect(defined.get("custom-stream")).not.toBe(element)
+  })
+})
+
+/**
+ * The parts of HTMLElement the element uses, as there is no DOM in the tests.
+ */
+class StubHTMLElement extends EventTarget {
+  readonly style = { display: "" }
+  isConnected = false
+  private readonly attrs = new Map<string, string>()
+
+  getAttribute(name: string): string | null {
+    return this.attrs.get(name) ?? null
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attrs.has(name)
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attrs.set(name, value)
+  }
+
+  removeAttribute(name: string) {
+    this.attrs.delete(name)
+  }
+}
+
+const logger = mockLogger()
+
+describe("PixelStreamElement", () => {
+  let element: PixelStreamElement
+  let server: MockSessionServer
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, "HTMLElement", {
+      value: StubHTMLElement,
+      configurable: true,
+    })
+    Object.defineProperty(globalThis, "navigator", {
+      value: { userAgent: "Mozilla/5.0 Chrome/120.0.0.0" },
+      configurable: true,
+    })
+  })
+
+  afterAll(() => {
+    Reflect.deleteProperty(globalThis, "HTMLElement")
+    Reflect.deleteProperty(globalThis, "navigator")
+  })
+
+  beforeEach(async () => {
+    jest.useFakeTimers()
+    // Loaded again so that the element extends the stub.
+    jest.resetModules()
+    const { PixelStreamElement } = await import("./element")
+    const { StreamingClient, StreamProvider } = await import("./client")
+
+    // Streams are started with the fake adapter rather than the GFN SDK.
+    const adapter = fakeAdapter()
+    const connect = StreamingClient.prototype.connect
+    jest
+      .spyOn(StreamingClient.prototype, "connect")
+      .mockImplementation(function (
+        this: InstanceType<typeof StreamingClient>,
+        opts,
+      ) {
+        this.registerProvider(StreamProvider.GeforceNow, adapter)
+        return connect.call(this, opts)
+      })
+
+    server = new MockSessionServer({
+      // The session is polled once as soon as it has been created.
+      states: [SessionState.Queued, SessionState.Queued, SessionState.Active],
+    })
+    element = new PixelStreamElement()
+    element.clientOptions = {
+      fetch: server.fetch,
+      logger,
+      skipBrowserSupportChecks: true,
+      sessionRefreshIntervalMillis: 0,
+    }
+    element.setAttribute("organization-id", "org")
+    element.setAttribute("project-id", "project")
+    element.setAttribute("world-id", "world")
+    element.setAttribute("token", "token")
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  function connect() {
+    ;(element as unknown as StubHTMLElement).isConnected = true
+    element.connectedCallback()
+  }
+
+  function disconnect() {
+    ;(element as unknown as StubHTMLElement).isConnected = false
+    element.disconnectedCallback()
+  }
+
+  it("should reflect the state of the stream and its session", async () => {
+    element.setAttribute("autostart", "")
+    connect()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(element.getAttribute("stream-state")).toBe("loading")
+    expect(element.getAttribute("session-state")).toBe("queued")
+    expect(element.getAttribute("queue-position")).toBe("1")
+
+    await jest.advanceTimersByTimeAsync(5000)
+
+    expect(element.getAttribute("stream-state")).toBe("streaming")
+    expect(element.getAttribute("session-state")).toBe("active")
+    expect(element.hasAttribute("queue-position")).toBe(false)
+
+    element.stop()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(element.getAttribute("stream-state")).toBe("terminated")
+  })
+
+  it("should dispatch the events of the stream from the element", async () => {
+    const states: unknown[] = []
+    const done = jest.fn()
+    element.addEventListener("streamStateUpdated", (event) => {
+      states.push((event as CustomEvent).detail.state)
+    })
+    element.addEventListener("done", (event) => {
+      done((event as CustomEvent).detail)
+    })
+
+    connect()
+    expect(element.streamSession).toBeUndefined()
+
+    element.start()
+    await jest.advanceTimersByTimeAsync(5000)
+    element.stop()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(states).toEqual([
+      StreamState.Loading,
+      StreamState.Streaming,
+      StreamState.Terminated,
+    ])
+    // Events without a detail have a null detail.
+    expect(done).toHaveBeenCalledWith(null)
+  })
+
+  it("should delete the session once removed from the page", async () => {
+    element.setAttribute("autostart", "")
+    connect()
+    await jest.advanceTimersByTimeAsync(5000)
+    expect(element.getAttribute("stream-state")).toBe("streaming")
+
+    disconnect()
+    // The element first waits to see whether it is only being moved.
+    await jest.advanceTimersByTimeAsync(0)
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(element.streamSession).toBeUndefined()
+    expect(server.getSession("mock-session-1")?.state).toBe(
+      SessionState.Deleted,
+    )
+  })
+
+  it("should keep streaming when moved within the page", async () => {
+    element.setAttribute("autostart", "")
+    connect()
+    await jest.advanceTimersByTimeAsync(5000)
+
+    disconnect()
+    connect()
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(element.streamSession?.state.stream).toBe(StreamState.Streaming)
+    expect(server.getSession("mock-session-1")?.state).toBe(SessionState.Active)
+  })
+})
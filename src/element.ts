@@ -0,0 +1,227 @@
+/**
+ * The `<m2-pixel-stream>` custom element, which embeds a stream into a page
+ * without any framework or glue code.
+ *
+ * @example
+ * ```html
+ * <script src="https://unpkg.com/@msquared/pixel-streaming-client"></script>
+ * <script>
+ *   MSquaredPixelStreamingClient.definePixelStreamElement()
+ * </script>
+ * <m2-pixel-stream
+ *   organization-id="org"
+ *   project-id="project"
+ *   world-id="world"
+ *   token="..."
+ *   autostart
+ * ></m2-pixel-stream>
+ * ```
+ *
+ * @module
+ */
+
+import {
+  type ClientOptions,
+  StreamingClient,
+  type StreamSession,
+  type StreamSessionResult,
+  StreamState,
+  StreamTarget,
+} from "./client"
+import type { StreamProfile } from "./gfn/profile"
+import type { Token } from "./types"
+
+/** The tag name the element is defined with by default */
+export const PIXEL_STREAM_TAG_NAME = "m2-pixel-stream"
+
+const SESSION_EVENTS = [
+  "streamStateUpdated",
+  "sessionStateUpdated",
+  "error",
+  "diagnostic",
+  "metrics",
+] as const
+
+// Allows this module to be imported where custom elements are not available,
+// e.g. when rendering on the server. The element can only be defined in a browser.
+const BaseElement: typeof HTMLElement =
+  globalThis.HTMLElement ?? (class {} as typeof HTMLElement)
+
+/**
+ * A custom element that sets up a session and embeds its stream into itself.
+ *
+ * Attributes:
+ * - `organization-id`, `project-id`, `world-id`: the world to stream, read when the stream starts
+ * - `token`: the bearer token, which can also be set as a token factory with the `token` property
+ * - `autostart`: starts the stream once the element is added to the page
+ *
+ * The element reflects the state of the stream as a `stream-state` attribute,
+ * e.g. `streaming`, the state of the session as a `session-state` attribute,
+ * e.g. `queued`, and the position in the queue as a `queue-position` attribute.
+ *
+ * The client's events for the stream are dispatched from the element, and a
+ * `done` event is dispatched with the {@link StreamSessionResult} once the stream ends.
+ * The session is cleaned up when the element is removed from the page.
+ */
+export class PixelStreamElement extends BaseElement {
+  static readonly observedAttributes = ["token"]
+
+  /** Options for the client, other than its credentials */
+  clientOptions?: Omit<ClientOptions, "auth">
+  /** The resolution and frame rate to stream at */
+  streamProfile?: StreamProfile
+
+  private tokenSource?: Token
+  private client?: StreamingClient
+  private session?: StreamSession
+  private queuePosition?: number
+
+  /**
+   * The bearer token, or a factory to obtain one. Defaults to the `token` attribute.
+   */
+  get token(): Token | undefined {
+    return this.tokenSource ?? this.getAttribute("token") ?? undefined
+  }
+
+  set token(token: Token | undefined) {
+    this.tokenSource = token
+    if (token) {
+      this.client?.setAuthToken(token)
+    }
+  }
+
+  /** The current stream, if one has been started */
+  get streamSession(): StreamSession | undefined {
+    return this.session
+  }
+
+  connectedCallback() {
+    if (!this.style.display) {
+      this.style.display = "block"
+    }
+    if (this.hasAttribute("autostart") && !this.session) {
+      this.start()
+    }
+  }
+
+  disconnectedCallback() {
+    // The element may only be moving within the page.
+    queueMicrotask(() => {
+      if (!this.isConnected) {
+        // Stops the stream and deletes its session.
+        this.client?.dispose()
+        this.client = undefined
+        this.session = undefined
+      }
+    })
+  }
+
+  attributeChangedCallback(
+    name: string,
+    _: string | null,
+    value: string | null,
+  ) {
+    if (name === "token" && value && !this.tokenSource) {
+      this.client?.setAuthToken(value)
+    }
+  }
+
+  /**
+   * Starts streaming the world into the element, stopping any current stream.
+   * @returns The session, or undefined if a required attribute or the token is missing
+   * @throws {never} This method does not throw any errors.
+   */
+  start(): StreamSession | undefined {
+    const organizationId = this.getAttribute("organization-id") ?? undefined
+    const projectId = this.getAttribute("project-id")
+    const worldId = this.getAttribute("world-id")
+    const token = this.token
+    if (!projectId || !worldId || !token) {
+      return
+    }
+
+    this.client ??= new StreamingClient({
+      ...this.clientOptions,
+      auth: { token, organizationId },
+    })
+    this.stop()
+
+    const session = this.client.connect({
+      projectId,
+      worldId,
+      target: StreamTarget.Embedded,
+      container: this,
+      streamProfile: this.streamProfile,
+    })
+    this.session = session
+    this.queuePosition = undefined
+    this.reflectState()
+
+    for (const type of SESSION_EVENTS) {
+      session.events.addEventListener(type, (event) => {
+        if (event.type === "sessionStateUpdated") {
+          this.queuePosition = event.detail.queuePosition
+        }
+        this.reflectState()
+        this.dispatchEvent(
+          new CustomEvent(event.type, { detail: event.detail, bubbles: true }),
+        )
+      })
+    }
+    session.done.then((result) => {
+      if (this.session !== session) {
+        return
+      }
+      this.reflectState()
+      this.dispatchEvent(
+        new CustomEvent<StreamSessionResult>("done", {
+          detail: result,
+          bubbles: true,
+        }),
+      )
+    })
+
+    return session
+  }
+
+  /**
+   * Stops the current stream and deletes its session.
+   * @throws {never} This method does not throw any errors.
+   */
+  stop(): undefined {
+    this.session?.stop()
+  }
+
+  private reflectState() {
+    const { stream, session } = this.session?.state ?? {
+      stream: StreamState.Idle,
+    }
+    this.setAttribute("stream-state", StreamState[stream].toLowerCase())
+    this.reflect("session-state", session?.toLowerCase())
+    this.reflect("queue-position", this.queuePosition?.toString())
+  }
+
+  private reflect(name: string, value?: string) {
+    if (value === undefined) {
+      this.removeAttribute(name)
+    } else {
+      this.setAttribute(name, value)
+    }
+  }
+}
+
+/**
+ * Defines the {@link PixelStreamElement} as a custom element. Does nothing if
+ * custom elements are not supported, or the tag name is already defined.
+ * @param tagName The tag name to define the element with
+ */
+export function definePixelStreamElement(
+  tagName: string = PIXEL_STREAM_TAG_NAME,
+): void {
+  const registry = globalThis.customElements
+  if (!registry || registry.get(tagName)) {
+    return
+  }
+  // Each tag name needs its own constructor.
+  registry.define(tagName, class extends PixelStreamElement {})
+}
@@ -0,0 +1,46 @@
+import { StreamDiagnosticSeverity } from "../provider"
+import { decodeDiagnostic, formatCode } from "./diagnostics"
+import { TerminationErrorCode } from "./types"
+
+describe("decodeDiagnostic", () => {
+  it("should decode the code name", () => {
+    expect(
+      decodeDiagnostic({
+        level: 2,
+        code: TerminationErrorCode.NetworkError,
+        message: "network",
+      }),
+    ).toEqual({
+      severity: StreamDiagnosticSeverity.Error,
+      code: TerminationErrorCode.NetworkError,
+      codeName: "NetworkError",
+      message: "network",
+      level: 2,
+    })
+  })
+
+  it("should treat upcoming maintenance and patching as warnings", () => {
+    for (const code of [
+      TerminationErrorCode.Maintenance,
+      TerminationErrorCode.AppPatching,
+      TerminationErrorCode.ServerDisconnectedMaintenanceMode,
+    ]) {
+      expect(decodeDiagnostic({ code }).severity).toBe(
+        StreamDiagnosticSeverity.Warning,
+      )
+    }
+  })
+
+  it("should treat unknown success codes as info", () => {
+    const diagnostic = decodeDiagnostic({ code: 0x00f20001 })
+
+    expect(diagnostic.severity).toBe(StreamDiagnosticSeverity.Info)
+    expect(diagnostic.codeName).toBeUndefined()
+  })
+})
+
+describe("formatCode", () => {
+  it("should format the code as hex", () => {
+    expect(formatCode(TerminationErrorCode.NetworkError)).toBe("0xC0F21002")
+  })
+})
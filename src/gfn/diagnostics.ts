@@ -0,0 +1,66 @@
+/**
+ * Decoding of diagnostics reported by the GFN SDK.
+ *
+ * @module
+ */
+
+import { type StreamDiagnostic, StreamDiagnosticSeverity } from "../provider"
+import { TerminationErrorCode } from "./types"
+
+/**
+ * Codes that warn the stream is about to become unavailable, regardless of
+ * the severity encoded in the code itself.
+ */
+const WARNING_CODES = new Set<number>([
+  TerminationErrorCode.ServerDisconnectedUserIdle,
+  TerminationErrorCode.ServerDisconnectedMaintenanceMode,
+  TerminationErrorCode.Maintenance,
+  TerminationErrorCode.AppPatching,
+])
+
+/**
+ * Decodes a diagnostic event from the GFN SDK.
+ */
+export function decodeDiagnostic({
+  level,
+  code,
+  message,
+}: {
+  level?: number
+  code?: number
+  message?: string
+}): StreamDiagnostic {
+  return {
+    severity: severityOf(code),
+    code,
+    codeName: code === undefined ? undefined : TerminationErrorCode[code],
+    message,
+    level,
+  }
+}
+
+/**
+ * Formats a code as hex, as GFN codes are documented, e.g. `0xC0F21002`.
+ */
+export function formatCode(code: number): string {
+  return `0x${code.toString(16).toUpperCase()}`
+}
+
+function severityOf(code: number | undefined): StreamDiagnosticSeverity {
+  if (code === undefined) {
+    return StreamDiagnosticSeverity.Info
+  }
+  if (WARNING_CODES.has(code)) {
+    return StreamDiagnosticSeverity.Warning
+  }
+
+  // The top two bits of a code encode its severity, as with NTSTATUS values.
+  switch (code >>> 30) {
+    case 3:
+      return StreamDiagnosticSeverity.Error
+    case 2:
+      return StreamDiagnosticSeverity.Warning
+    default:
+      return StreamDiagnosticSeverity.Info
+  }
+}
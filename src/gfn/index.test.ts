@@ -0,0 +1,118 @@
+import { type FakeGFN, installFakeGFN } from "../testing"
+import {
+  disposeClient,
+  GFNAdapter,
+  GFNTerminationError,
+  getOrInitClient,
+} from "."
+import { TerminationErrorCode } from "./types"
+
+const settings = {
+  clientId: "client",
+  catalogClientId: "catalog",
+  partnerId: "partner",
+}
+
+async function init() {
+  const client = await getOrInitClient({ settings })
+  if (client instanceof Error) {
+    throw client
+  }
+  return client
+}
+
+describe("GFN client lifecycle", () => {
+  let gfn: FakeGFN
+
+  beforeEach(() => {
+    gfn = installFakeGFN()
+  })
+
+  afterEach(() => {
+    disposeClient()
+    gfn.uninstall()
+  })
+
+  it("should only call the callbacks that are still registered", async () => {
+    const client = await init()
+
+    const first = { onStarted: jest.fn(), onTerminated: jest.fn() }
+    const second = { onStarted: jest.fn(), onTerminated: jest.fn() }
+    const unlisten = client.listen(first)
+    unlisten()
+    client.listen(second)
+    gfn.emitStarted()
+
+    expect(first.onStarted).not.toHaveBeenCalled()
+    expect(second.onStarted).toHaveBeenCalledTimes(1)
+  })
+
+  it("should reinitialize when the settings change", async () => {
+    const first = await init()
+    const callbacks = { onStarted: jest.fn(), onTerminated: jest.fn() }
+    first.listen(callbacks)
+
+    expect(await init()).toBe(first)
+
+    const second = await getOrInitClient({
+      settings: { ...settings, clientId: "other" },
+    })
+    gfn.emitStarted()
+
+    expect(second).not.toBe(first)
+    expect(gfn.calls.initialize).toHaveLength(2)
+    expect(callbacks.onStarted).not.toHaveBeenCalled()
+  })
+
+  it("should report unexpected terminations as errors", async () => {
+    const client = await init()
+    const callbacks = { onStarted: jest.fn(), onTerminated: jest.fn() }
+    client.listen(callbacks)
+
+    gfn.emitTerminated()
+    gfn.emitTerminated(TerminationErrorCode.NetworkError, 2)
+
+    expect(callbacks.onTerminated).toHaveBeenNthCalledWith(1)
+    const error = callbacks.onTerminated.mock.calls[1]?.[0]
+    expect(error).toBeInstanceOf(GFNTerminationError)
+    expect(error).toMatchObject({
+      code: TerminationErrorCode.NetworkError,
+      reason: 2,
+    })
+  })
+
+  it("should return an error when initialization fails", async () => {
+    gfn.failNext("initialize")
+
+    expect(await getOrInitClient({ settings })).toBeInstanceOf(Error)
+    expect(await init()).toBeDefined()
+  })
+
+  it("should start measuring the latency to each zone when loaded", async () => {
+    gfn.uninstall()
+    const fakeZone = { name: "fake-zone", address: "https://fake-zone.invalid" }
+    const otherZone = { name: "other-zone", address: "https://other.invalid" }
+    gfn = installFakeGFN({
+      serverInfo: {
+        ...(await gfn.server.getServerInfo()),
+        zones: { "other-zone": otherZone },
+      },
+    })
+    const measureLatency = jest.fn().mockResolvedValue(10)
+    const adapter = new GFNAdapter(settings, { measureLatency })
+
+    expect(await adapter.load()).toBeUndefined()
+
+    expect(measureLatency).toHaveBeenCalledWith(fakeZone)
+    expect(measureLatency).toHaveBeenCalledWith(otherZone)
+  })
+
+  it("should not measure the latency to a single zone", async () => {
+    const measureLatency = jest.fn().mockResolvedValue(10)
+    const adapter = new GFNAdapter(settings, { measureLatency })
+
+    expect(await adapter.load()).toBeUndefined()
+
+    expect(measureLatency).not.toHaveBeenCalled()
+  })
+})
@@ -1,6 +1,24 @@
+import errors from "../errors"
 import { invariant } from "../invariant"
-
+import { type MarkMilestone, StreamMilestone } from "../metrics"
+import type {
+  EmbeddedStartOptions,
+  LoadOptions,
+  StreamDiagnostic,
+  StreamProviderAdapter,
+} from "../provider"
+import { noopTracer, withSpan } from "../tracing"
+import { decodeDiagnostic } from "./diagnostics"
+import { resolveStreamParams, type StreamProfile } from "./profile"
 import { type API, type ServerInfo, TerminationErrorCode } from "./types"
+import {
+  fetchLatency,
+  findFastestZone,
+  findZone,
+  type GFNZone,
+  listZones,
+  type MeasureLatency,
+} from "./zones"
 
 const DEFAULT_GFN_SDK_VERSION_NUMBER = "1.x"
 
@@ -17,6 +35,7 @@ declare namespace globalThis {
 type Callbacks = {
   onStarted: () => void
   onTerminated: (e?: GFNTerminationError) => void
+  onDiagnostic?: (diagnostic: StreamDiagnostic) => void
 }
 
 export class GFNClientError extends Error {
@@ -49,6 +68,11 @@ type Config = {
     partnerId: string
     versionNumber?: string
   }
+  /**
+   * Measures the latency to each zone.
+   * @default timing requests to each zone with {@link globalThis.fetch}
+   */
+  measureLatency?: MeasureLatency
 }
 
 type Auth = {
@@ -60,31 +84,79 @@ const GEFORCE_PLAYER_ELEMENT_ID = "geforce-container"
 
 let client: GFNClient | undefined
 
+/**
+ * The GFN streamer that listeners have been registered on. Listeners cannot be
+ * removed from the streamer, so they are registered once and dispatch to the
+ * callbacks registered with the current client.
+ */
+let listeningTo: API["streamer"] | undefined
+
 class GFNClient {
   private player?: HTMLElement
+  private readonly subscribers = new Set<Callbacks>()
+  private fastestZone?: Promise<GFNZone | undefined>
 
   constructor(
     public readonly config: Config,
     readonly serverInfo: ServerInfo,
+    private readonly measureLatency: MeasureLatency = fetchLatency(),
   ) {}
 
+  /**
+   * Lists the zones that streams can be started in.
+   */
+  listZones(): GFNZone[] {
+    return listZones(this.serverInfo)
+  }
+
+  /**
+   * Chooses the zone to start a stream in. Unless the preferred zone is known,
+   * the zone with the lowest latency is used. Latency is measured once per client.
+   * @param preferred The name or address of the preferred zone
+   */
+  async selectZone(preferred?: string): Promise<GFNZone> {
+    const zones = this.listZones()
+    const zone = preferred ? findZone(zones, preferred) : undefined
+    if (zone) {
+      return zone
+    }
+
+    return (await this.measureZones()) ?? this.serverInfo.defaultZone
+  }
+
+  /**
+   * Starts measuring the latency to each zone, if it has not been measured yet,
+   * so that it does not delay starting a stream.
+   * @returns the zone with the lowest latency
+   */
+  measureZones(): Promise<GFNZone | undefined> {
+    this.fastestZone ??= findFastestZone(this.listZones(), this.measureLatency)
+    return this.fastestZone
+  }
+
   async start(
     container: HTMLElement,
     auth: Auth,
+    {
+      streamProfile,
+      zone: preferredZone,
+      mark,
+    }: {
+      streamProfile?: StreamProfile
+      zone?: string
+      mark?: MarkMilestone
+    } = {},
   ): Promise<GFNClientError | undefined> {
     await globalThis.GFN.auth.loginWithNonce(auth.nonce, auth.cmsId)
+    mark?.(StreamMilestone.GFNLoggedIn)
 
     const token = globalThis.GFN.auth.guestUser?.idToken
     invariant(token, "guestUser ID token should exist")
 
-    const resolution = globalThis.GFN.streamer.detectStreamingResolution()
-
-    // HACK: widen the resolution to 1280x720 (16:9) if we got 1024x720 back, which is the default
-    // for iPhone devices.
-    // TODO allow this behaviour to be customised, ideally by specifing a GFN `StreamProfilePreset`, or a (constrained) custom resolution.
-    if (resolution.width === 1024 && resolution.height === 720) {
-      resolution.width = 1280
-    }
+    const streamParams = resolveStreamParams(streamProfile, () =>
+      globalThis.GFN.streamer.detectStreamingResolution(),
+    )
+    const zone = await this.selectZone(preferredZone)
 
     // Remove existing player element if it exists and reset the client state.
     if (this.player) {
@@ -102,15 +174,12 @@ class GFNClient {
 
     try {
       await globalThis.GFN.streamer.start({
-        server: this.serverInfo.defaultZone.address,
+        server: zone.address,
         appId: auth.cmsId,
         windowElementId: GEFORCE_PLAYER_ELEMENT_ID,
-        streamParams: {
-          width: resolution.width,
-          height: resolution.height,
-          fps: 60,
-        },
+        streamParams,
       })
+      mark?.(StreamMilestone.GFNStreamerStarted)
     } catch (cause) {
       return new GFNClientError("failed to start stream", { cause })
     }
@@ -124,28 +193,81 @@ class GFNClient {
     globalThis.GFN.streamer.stop()
   }
 
-  listen({ onTerminated, onStarted }: Callbacks) {
-    globalThis.GFN.streamer.on("started", onStarted)
-    globalThis.GFN.streamer.on("diagnostic", (e) => {
-      switch (e.code) {
-        case TerminationErrorCode.RequestLimitExceeded:
-        case TerminationErrorCode.SessionLimitExceeded:
-          onTerminated(new GFNTerminationError(e.code, -1, e.message))
+  /**
+   * Registers callbacks to be notified of streamer events.
+   * @returns a function that removes the callbacks
+   */
+  listen(callbacks: Callbacks): () => void {
+    registerStreamerListeners()
+    this.subscribers.add(callbacks)
+    return () => {
+      this.subscribers.delete(callbacks)
+    }
+  }
+
+  /**
+   * Calls each of the registered callbacks.
+   */
+  dispatch(fn: (callbacks: Callbacks) => void) {
+    // Copied as callbacks may remove themselves, or register new callbacks.
+    for (const callbacks of [...this.subscribers]) {
+      fn(callbacks)
+    }
+  }
+
+  /**
+   * Stops any running stream and removes all callbacks.
+   */
+  dispose() {
+    this.subscribers.clear()
+    if (this.player) {
+      errors.catch(() => this.stop())
+      this.player.remove()
+      this.player = undefined
+    }
+  }
+}
+
+function registerStreamerListeners() {
+  const streamer = globalThis.GFN.streamer
+  if (listeningTo === streamer) {
+    return
+  }
+  listeningTo = streamer
+
+  streamer.on("started", () => {
+    client?.dispatch(({ onStarted }) => onStarted())
+  })
+  streamer.on("diagnostic", (e) => {
+    const diagnostic = decodeDiagnostic(e)
+    let error: GFNTerminationError | undefined
+    switch (e.code) {
+      case TerminationErrorCode.RequestLimitExceeded:
+      case TerminationErrorCode.SessionLimitExceeded:
+        error = new GFNTerminationError(e.code, -1, e.message)
+    }
+
+    client?.dispatch(({ onDiagnostic, onTerminated }) => {
+      onDiagnostic?.(diagnostic)
+      if (error) {
+        onTerminated(error)
       }
     })
-    globalThis.GFN.streamer.on("terminated", (e) => {
-      switch (e.code) {
-        case TerminationErrorCode.ServerDisconnectedIntended:
-        case undefined:
-          // Normal termination, e.g. user closed the stream intentionally.
-          onTerminated()
-          break
-        default:
-          // Unexpected termination, e.g. network error.
-          onTerminated(new GFNTerminationError(e.code, e.reason))
+  })
+  streamer.on("terminated", (e) => {
+    switch (e.code) {
+      case TerminationErrorCode.ServerDisconnectedIntended:
+      case undefined:
+        // Normal termination, e.g. user closed the stream intentionally.
+        client?.dispatch(({ onTerminated }) => onTerminated())
+        break
+      default: {
+        // Unexpected termination, e.g. network error.
+        const error = new GFNTerminationError(e.code, e.reason)
+        client?.dispatch(({ onTerminated }) => onTerminated(error))
       }
-    })
-  }
+    }
+  })
 }
 
 /**
@@ -155,27 +277,45 @@ class GFNClient {
  */
 export async function initClient(
   config: Config,
+  { mark, tracer = noopTracer, parent }: LoadOptions = {},
 ): Promise<GFNClient | GFNClientError> {
   if (client) {
-    // TODO: Should we stop and invalidate any existing clients that were handed out with an out of date config, rather than returning an error here.
-    // We shoud probably also remove the listeners in this case
+    // Use getOrInitClient to replace a client with different settings, or
+    // disposeClient before initializing again.
     return GFNClientAlreadyInitialized
   }
 
-  await loadGFNOnce(config.settings.versionNumber)
-
-  try {
-    await globalThis.GFN.initialize(
-      new globalThis.GFN.Settings(config.settings),
-    )
-    const server = await globalThis.GFN.server.getServerInfo()
-    globalThis.GFN.settings.vpcId = server.vpcId
-
-    client = new GFNClient(config, server)
-    return client
-  } catch (cause) {
-    return new GFNClientError("GFN client initialization failed", { cause })
-  }
+  return withSpan(
+    tracer,
+    "gfn.initialize",
+    {
+      attributes: {
+        "gfn.sdk_version":
+          config.settings.versionNumber ?? DEFAULT_GFN_SDK_VERSION_NUMBER,
+      },
+      parent,
+    },
+    async (span) => {
+      await loadGFNOnce(config.settings.versionNumber, mark)
+
+      try {
+        await globalThis.GFN.initialize(
+          new globalThis.GFN.Settings(config.settings),
+        )
+        const server = await globalThis.GFN.server.getServerInfo()
+        globalThis.GFN.settings.vpcId = server.vpcId
+        span.setAttributes({ "gfn.default_zone": server.defaultZone.name })
+
+        client = new GFNClient(config, server, config.measureLatency)
+        mark?.(StreamMilestone.GFNInitialized)
+        return client
+      } catch (cause) {
+        return new GFNClientError("GFN client initialization failed", {
+          cause,
+        })
+      }
+    },
+  )
 }
 
 export function getClient() {
@@ -186,22 +326,54 @@ export function getClient() {
   return GFNClientNotInitialized
 }
 
+/**
+ * Gets the current client, initializing a new client if there is none or the
+ * current client was initialized with different settings. A client with
+ * different settings is disposed, stopping any stream it is running.
+ */
 export async function getOrInitClient(
   config: Config,
+  opts?: LoadOptions,
 ): Promise<GFNClient | GFNClientError> {
-  if (client) {
+  if (client && sameSettings(client.config.settings, config.settings)) {
     return client
   }
 
-  return initClient(config)
+  disposeClient()
+  return initClient(config, opts)
+}
+
+/**
+ * Disposes of the current client, if any, stopping any stream it is running
+ * and removing its callbacks. A new client can be initialized afterwards.
+ */
+export function disposeClient() {
+  client?.dispose()
+  client = undefined
+}
+
+function sameSettings(a: Config["settings"], b: Config["settings"]): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return [...keys].every(
+    (key) =>
+      a[key as keyof Config["settings"]] === b[key as keyof Config["settings"]],
+  )
 }
 
-function loadGFNOnce(gfnVersionOverride: string | undefined) {
+/**
+ * Loads the GFN SDK script, unless `globalThis.GFN` is already set, e.g. by
+ * a previous load or by the fake SDK from the `testing` entry point.
+ */
+function loadGFNOnce(
+  gfnVersionOverride: string | undefined,
+  mark?: MarkMilestone,
+) {
   if (!globalThis.GFN) {
     return new Promise<void>((resolve) => {
       const script = document.createElement("script")
       script.src = getGfnScriptUrl(gfnVersionOverride)
       script.addEventListener("load", function loadListener() {
+        mark?.(StreamMilestone.GFNScriptLoaded)
         resolve()
         script.removeEventListener("load", loadListener)
       })
@@ -218,6 +390,32 @@ export type GeforceStreamConfig = {
   state?: string
 }
 
+/**
+ * Reads the termination code and reason from the query parameters of the
+ * redirect back from GDN. Codes may be decimal or hex, e.g. `0xC0F21002`.
+ *
+ * @returns the termination error, or undefined if the stream ended normally
+ */
+export function parseGfnReturn(
+  params: URLSearchParams,
+): GFNTerminationError | undefined {
+  const code = Number(params.get("code") ?? Number.NaN)
+  if (
+    Number.isNaN(code) ||
+    code === TerminationErrorCode.Success ||
+    code === TerminationErrorCode.ServerDisconnectedIntended
+  ) {
+    return
+  }
+
+  const reason = Number(params.get("reason") ?? -1)
+  return new GFNTerminationError(
+    code,
+    Number.isNaN(reason) ? -1 : reason,
+    params.get("error") ?? undefined,
+  )
+}
+
 // TODO: understand if we can/should bundle partner ID as part of the config or not? If so it should be removed from the ClientOptions.
 export function buildGfnUrl(
   partnerId: string,
@@ -246,3 +444,103 @@ export function buildGfnUrl(
 
   return url.href
 }
+
+/**
+ * Adapter for streaming via GeForce Now, either embedded using the GFN SDK or
+ * in its own window via GDN.
+ */
+export class GFNAdapter implements StreamProviderAdapter<GeforceStreamConfig> {
+  /** The client loaded by this adapter, which may since have been replaced */
+  private client?: GFNClient
+
+  constructor(
+    private readonly settings: Config["settings"],
+    private readonly opts: { measureLatency?: MeasureLatency } = {},
+  ) {}
+
+  async load(opts?: LoadOptions): Promise<undefined | GFNClientError> {
+    const client = await getOrInitClient(
+      { settings: this.settings, measureLatency: this.opts.measureLatency },
+      opts,
+    )
+    if (client instanceof GFNClientError) {
+      return client
+    }
+    this.client = client
+    // Measured while logging in, rather than delaying the start of the stream.
+    client.measureZones()
+  }
+
+  /**
+   * Lists the zones that embedded streams can be started in.
+   */
+  async listZones(): Promise<GFNZone[] | GFNClientError> {
+    const client = await getOrInitClient({
+      settings: this.settings,
+      measureLatency: this.opts.measureLatency,
+    })
+    if (client instanceof GFNClientError) {
+      return client
+    }
+    return client.listZones()
+  }
+
+  async startEmbedded(
+    element: HTMLElement,
+    config: GeforceStreamConfig,
+    { streamProfile, zone, mark }: EmbeddedStartOptions = {},
+  ): Promise<undefined | GFNClientError> {
+    const client = getClient()
+    if (client instanceof GFNClientError) {
+      return client
+    }
+
+    return client.start(
+      element,
+      {
+        cmsId: Number.parseInt(config.cmsId, 10),
+        nonce: config.nonce,
+      },
+      { streamProfile, zone: zone ?? config.zone, mark },
+    )
+  }
+
+  buildWindowUrl(
+    config: GeforceStreamConfig,
+    { fullscreen, state }: { fullscreen: boolean; state?: string },
+  ): string {
+    return buildGfnUrl(
+      this.settings.partnerId,
+      state ? { ...config, state } : config,
+      { fullscreen },
+    )
+  }
+
+  parseWindowReturn(params: URLSearchParams): GFNTerminationError | undefined {
+    return parseGfnReturn(params)
+  }
+
+  stop() {
+    const client = getClient()
+    if (client instanceof GFNClientError) {
+      return // Silently ignore
+    }
+    client.stop()
+  }
+
+  listen(callbacks: Callbacks): () => void {
+    const client = getClient()
+    if (client instanceof GFNClientError) {
+      return () => {}
+    }
+    return client.listen(callbacks)
+  }
+
+  dispose() {
+    // Leave a client loaded by another adapter, e.g. of another StreamingClient, running.
+    if (this.client && this.client === getClient()) {
+      disposeClient()
+    }
+    this.client = undefined
+  }
+}
@@ -0,0 +1,47 @@
+import { resolveStreamParams, StreamProfilePreset } from "./profile"
+
+describe("resolveStreamParams", () => {
+  const detect = jest.fn(() => ({ width: 1920, height: 1080 }))
+
+  beforeEach(() => {
+    detect.mockClear()
+  })
+
+  it("should use the preset without detecting the resolution", () => {
+    expect(resolveStreamParams(StreamProfilePreset.DataSaver, detect)).toEqual({
+      width: 1280,
+      height: 720,
+      fps: 30,
+    })
+    expect(detect).not.toHaveBeenCalled()
+  })
+
+  it("should auto-detect the resolution when no profile is given", () => {
+    expect(resolveStreamParams(undefined, detect)).toEqual({
+      width: 1920,
+      height: 1080,
+      fps: 60,
+    })
+  })
+
+  it("should widen the iPhone default resolution to 16:9", () => {
+    expect(
+      resolveStreamParams({}, () => ({ width: 1024, height: 720 })),
+    ).toEqual({ width: 1280, height: 720, fps: 60 })
+  })
+
+  it("should constrain a custom profile", () => {
+    expect(
+      resolveStreamParams({ width: 8000, height: 101, fps: 90 }, detect),
+    ).toEqual({ width: 3840, height: 360, fps: 60 })
+    expect(detect).not.toHaveBeenCalled()
+  })
+
+  it("should detect any part of the resolution that is missing", () => {
+    expect(resolveStreamParams({ height: 720, fps: 30 }, detect)).toEqual({
+      width: 1920,
+      height: 720,
+      fps: 30,
+    })
+  })
+})
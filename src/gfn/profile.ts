@@ -0,0 +1,107 @@
+/**
+ * Resolution and frame rate of embedded GeForce Now streams.
+ *
+ * @module
+ */
+
+/**
+ * Named stream profiles.
+ */
+export enum StreamProfilePreset {
+  /** 1280x720 at 30fps, for limited or metered connections */
+  DataSaver = "data-saver",
+  /** 1280x720 at 60fps */
+  Balanced = "balanced",
+  /** 1920x1080 at 60fps */
+  High = "high",
+  /** 1920x1080 at 120fps, for displays and connections that support it */
+  HighFrameRate = "120fps",
+}
+
+/**
+ * A custom stream profile. Values are constrained to those supported by
+ * GeForce Now, and any that are omitted are auto-detected.
+ */
+export type CustomStreamProfile = {
+  /** Width in pixels, between 640 and 3840 */
+  width?: number
+  /** Height in pixels, between 360 and 2160 */
+  height?: number
+  /** Frames per second, rounded to the nearest of 30, 60 or 120 */
+  fps?: number
+}
+
+export type StreamProfile = StreamProfilePreset | CustomStreamProfile
+
+export type StreamParams = {
+  width: number
+  height: number
+  fps: number
+}
+
+const DEFAULT_FPS = 60
+const SUPPORTED_FPS = [30, 60, 120]
+const WIDTH_RANGE = [640, 3840] as const
+const HEIGHT_RANGE = [360, 2160] as const
+
+const PRESETS: Record<StreamProfilePreset, StreamParams> = {
+  [StreamProfilePreset.DataSaver]: { width: 1280, height: 720, fps: 30 },
+  [StreamProfilePreset.Balanced]: { width: 1280, height: 720, fps: 60 },
+  [StreamProfilePreset.High]: { width: 1920, height: 1080, fps: 60 },
+  [StreamProfilePreset.HighFrameRate]: { width: 1920, height: 1080, fps: 120 },
+}
+
+/**
+ * Resolves the parameters to start a stream with from a profile.
+ *
+ * @param detect auto-detects the resolution, called only if the profile does not specify one
+ */
+export function resolveStreamParams(
+  profile: StreamProfile | undefined,
+  detect: () => { width: number; height: number },
+): StreamParams {
+  if (typeof profile === "string") {
+    return { ...PRESETS[profile] }
+  }
+
+  const width = finite(profile?.width)
+  const height = finite(profile?.height)
+  const fps = finite(profile?.fps)
+  const detected =
+    width === undefined || height === undefined
+      ? detectResolution(detect)
+      : undefined
+
+  return {
+    width: clampEven(width ?? detected?.width ?? 0, WIDTH_RANGE),
+    height: clampEven(height ?? detected?.height ?? 0, HEIGHT_RANGE),
+    fps: fps === undefined ? DEFAULT_FPS : nearestFps(fps),
+  }
+}
+
+function detectResolution(detect: () => { width: number; height: number }) {
+  const resolution = { ...detect() }
+
+  // Widen the resolution to 1280x720 (16:9) if we got 1024x720 back, which is
+  // the default for iPhone devices.
+  if (resolution.width === 1024 && resolution.height === 720) {
+    resolution.width = 1280
+  }
+
+  return resolution
+}
+
+function finite(value: number | undefined): number | undefined {
+  return value !== undefined && Number.isFinite(value) ? value : undefined
+}
+
+function clampEven(value: number, [min, max]: readonly [number, number]) {
+  const clamped = Math.min(Math.max(value, min), max)
+  return Math.round(clamped / 2) * 2
+}
+
+function nearestFps(fps: number): number {
+  return SUPPORTED_FPS.reduce((nearest, supported) =>
+    Math.abs(supported - fps) < Math.abs(nearest - fps) ? supported : nearest,
+  )
+}
@@ -0,0 +1,69 @@
+import type { ServerInfo } from "./types"
+import { fetchLatency, findFastestZone, findZone, listZones } from "./zones"
+
+const eu = { name: "eu-west", address: "https://eu.example" }
+const us = { name: "us-east", address: "https://us.example" }
+
+describe("listZones", () => {
+  it("should list the default zone first without duplicates", () => {
+    const serverInfo = {
+      defaultZone: us,
+      zones: { eu, us },
+    } as unknown as ServerInfo
+
+    expect(listZones(serverInfo)).toEqual([us, eu])
+  })
+})
+
+describe("findZone", () => {
+  it("should find a zone by name or address", () => {
+    expect(findZone([eu, us], "us-east")).toBe(us)
+    expect(findZone([eu, us], "https://eu.example")).toBe(eu)
+    expect(findZone([eu, us], "ap-south")).toBeUndefined()
+  })
+})
+
+describe("findFastestZone", () => {
+  it("should choose the zone with the lowest latency", async () => {
+    const latencies: Record<string, number> = { "us-east": 120, "eu-west": 20 }
+
+    await expect(
+      findFastestZone([us, eu], async ({ name }) => latencies[name]),
+    ).resolves.toBe(eu)
+  })
+
+  it("should not measure a single zone", async () => {
+    const measure = jest.fn().mockResolvedValue(10)
+
+    await expect(findFastestZone([eu], measure)).resolves.toBe(eu)
+    expect(measure).not.toHaveBeenCalled()
+  })
+
+  it("should fall back to the first zone if none can be measured", async () => {
+    await expect(
+      findFastestZone([us, eu], async () => undefined),
+    ).resolves.toBe(us)
+  })
+})
+
+describe("fetchLatency", () => {
+  it("should time requests to the zone with the given fetch", async () => {
+    const fetch = jest.fn().mockResolvedValue({} as Response)
+
+    const latency = await fetchLatency({ fetch, samples: 3 })(eu)
+
+    expect(latency).toEqual(expect.any(Number))
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(fetch).toHaveBeenCalledWith(
+      new URL(eu.address),
+      expect.objectContaining({ mode: "no-cors" }),
+    )
+  })
+
+  it("should not measure a zone that cannot be reached", async () => {
+    const fetch = jest.fn().mockRejectedValue(new TypeError("Failed to fetch"))
+
+    await expect(fetchLatency({ fetch })(eu)).resolves.toBeUndefined()
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
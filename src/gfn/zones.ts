@@ -0,0 +1,118 @@
+/**
+ * Discovery and selection of the GeForce Now zone to stream from.
+ *
+ * @module
+ */
+
+import type { Fetch } from "../types"
+import type { ServerInfo } from "./types"
+
+const DEFAULT_LATENCY_SAMPLES = 2
+const DEFAULT_LATENCY_TIMEOUT_MILLIS = 2000
+
+/**
+ * A GeForce Now zone that streams can be started in.
+ */
+export type GFNZone = {
+  /** The name of the zone, as used in {@link GeforceStreamConfig.zone} */
+  name: string
+  /** The address of the zone's server */
+  address: string
+}
+
+/**
+ * Measures the round trip time to a zone.
+ *
+ * @returns the latency in milliseconds, or undefined if the zone could not be reached
+ */
+export type MeasureLatency = (zone: GFNZone) => Promise<number | undefined>
+
+/**
+ * Lists the zones in the server info, with the default zone first.
+ */
+export function listZones(serverInfo: ServerInfo): GFNZone[] {
+  const zones = [serverInfo.defaultZone, ...Object.values(serverInfo.zones)]
+  return zones
+    .filter(
+      (zone, i) => zones.findIndex(({ name }) => name === zone.name) === i,
+    )
+    .map(({ name, address }) => ({ name, address }))
+}
+
+/**
+ * Finds a zone by its name or address.
+ */
+export function findZone(
+  zones: GFNZone[],
+  nameOrAddress: string,
+): GFNZone | undefined {
+  return zones.find(
+    ({ name, address }) => name === nameOrAddress || address === nameOrAddress,
+  )
+}
+
+/**
+ * Measures the latency to each zone. Nothing is measured if there is only one zone.
+ *
+ * @returns the zone with the lowest latency, or the first zone if none of the zones could be measured
+ */
+export async function findFastestZone(
+  zones: GFNZone[],
+  measure: MeasureLatency,
+): Promise<GFNZone | undefined> {
+  if (zones.length <= 1) {
+    return zones[0]
+  }
+
+  const latencies = await Promise.all(zones.map((zone) => measure(zone)))
+
+  let best: { zone: GFNZone; latency: number } | undefined
+  zones.forEach((zone, i) => {
+    const latency = latencies[i]
+    if (latency !== undefined && (!best || latency < best.latency)) {
+      best = { zone, latency }
+    }
+  })
+
+  return best?.zone ?? zones[0]
+}
+
+/**
+ * Measures the latency to a zone by timing requests to its address, taking the
+ * fastest of several requests to exclude connection setup.
+ */
+export function fetchLatency({
+  fetch = (input, init) => globalThis.fetch(input, init),
+  samples = DEFAULT_LATENCY_SAMPLES,
+  timeoutMillis = DEFAULT_LATENCY_TIMEOUT_MILLIS,
+}: {
+  fetch?: Fetch
+  samples?: number
+  timeoutMillis?: number
+} = {}): MeasureLatency {
+  return async ({ address }) => {
+    let url: URL
+    try {
+      url = new URL(address.includes("://") ? address : `https://${address}`)
+    } catch {
+      return
+    }
+
+    let fastest: number | undefined
+    for (let i = 0; i < samples; i++) {
+      const start = performance.now()
+      try {
+        await fetch(url, {
+          mode: "no-cors",
+          cache: "no-store",
+          signal: AbortSignal.timeout(timeoutMillis),
+        })
+      } catch {
+        return fastest
+      }
+      const latency = performance.now() - start
+      fastest = fastest === undefined ? latency : Math.min(fastest, latency)
+    }
+    return fastest
+  }
+}
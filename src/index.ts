@@ -1,8 +1,3 @@
-export * from "./client"
+export { PixelStream, type PixelStreamProps } from "./react/pixel-stream"
 export { usePixelStreaming } from "./react/use-pixel-streaming"
-export type {
-  GeforceStreamConfig,
-  StreamConfig,
-  UbitusStreamConfig,
-} from "./session"
-export { SessionState } from "./session"
+export * from "./script"
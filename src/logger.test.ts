@@ -0,0 +1,72 @@
+import { ContextLogger, LogBuffer, LogLevel, redact } from "./logger"
+import { mockLogger } from "./test-utils"
+
+describe("redact", () => {
+  it("should redact secrets in strings", () => {
+    expect(redact("Authorization: Bearer abc.def")).toBe(
+      "Authorization: Bearer [REDACTED]",
+    )
+    expect(redact("https://gdn.nvidia.com/apps?cms-id=1&nonce=n0nce&a=b")).toBe(
+      "https://gdn.nvidia.com/apps?cms-id=1&nonce=[REDACTED]&a=b",
+    )
+    expect(redact('{"cmsId":"1","nonce":"n0nce"}')).toBe(
+      '{"cmsId":"1","nonce":"[REDACTED]"}',
+    )
+    expect(redact("token eyJhbGciOi.eyJzdWIi.c2lnbmF0dXJl")).toBe(
+      "token [REDACTED]",
+    )
+  })
+
+  it("should redact secret fields of objects", () => {
+    expect(
+      redact({ config: { nonce: "n0nce", cmsId: "1" }, launcherToken: "t" }),
+    ).toEqual({
+      config: { nonce: "[REDACTED]", cmsId: "1" },
+      launcherToken: "[REDACTED]",
+    })
+  })
+})
+
+describe("ContextLogger", () => {
+  it("should attach context and filter by level", () => {
+    const out = mockLogger()
+    const logger = new ContextLogger(out, { level: LogLevel.Warn })
+
+    logger.withContext({ streamId: "stream" }).warn("warning")
+    logger.info("info")
+
+    expect(out.warn).toHaveBeenCalledWith("warning", { streamId: "stream" })
+    expect(out.info).not.toHaveBeenCalled()
+  })
+
+  it("should keep recent messages of all levels in the buffer", () => {
+    const buffer = new LogBuffer(2)
+    const logger = new ContextLogger(mockLogger(), {
+      level: LogLevel.Silent,
+      buffer,
+    }).withContext({ sessionId: "session" })
+
+    logger.debug("first")
+    logger.info("second", { token: "secret" })
+    logger.error("third")
+
+    expect(
+      buffer.entries().map(({ level, context, data }) => ({
+        level,
+        context,
+        data,
+      })),
+    ).toEqual([
+      {
+        level: LogLevel.Info,
+        context: { sessionId: "session" },
+        data: ["second", { token: "[REDACTED]" }],
+      },
+      {
+        level: LogLevel.Error,
+        context: { sessionId: "session" },
+        data: ["third"],
+      },
+    ])
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * A logging layer on top of a {@link Logger} that attaches the stream's
+ * context to each message, filters messages by level and redacts secrets
+ * such as bearer tokens and GFN nonces.
+ *
+ * Recent messages are kept in a {@link LogBuffer} regardless of level, so
+ * that they can be included when a user reports a problem.
+ *
+ * @module
+ */
+
+import type { Logger } from "./types"
+
+/**
+ * Levels of log messages, from most to least verbose.
+ */
+export enum LogLevel {
+  Trace = "trace",
+  Debug = "debug",
+  Info = "info",
+  Warn = "warn",
+  Error = "error",
+  /** Disables logging, only valid as a level to filter by */
+  Silent = "silent",
+}
+
+const LEVEL_ORDER = [
+  LogLevel.Trace,
+  LogLevel.Debug,
+  LogLevel.Info,
+  LogLevel.Warn,
+  LogLevel.Error,
+  LogLevel.Silent,
+]
+
+/**
+ * IDs of the stream a message relates to.
+ */
+export type LogContext = {
+  streamId?: string
+  sessionId?: string
+  projectId?: string
+  worldId?: string
+}
+
+/**
+ * A message recorded in a {@link LogBuffer}.
+ */
+export type LogEntry = {
+  /** When the message was logged, in milliseconds since the epoch */
+  time: number
+  level: Exclude<LogLevel, LogLevel.Silent>
+  context: LogContext
+  /** The logged values, with secrets redacted */
+  data: unknown[]
+}
+
+const DEFAULT_LOG_BUFFER_SIZE = 200
+const REDACTED = "[REDACTED]"
+const SECRET_KEY = /token|nonce|authorization|secret|password/i
+const MAX_REDACT_DEPTH = 8
+
+/**
+ * Keeps the most recent log messages.
+ */
+export class LogBuffer {
+  private readonly buffer: LogEntry[] = []
+
+  constructor(readonly capacity = DEFAULT_LOG_BUFFER_SIZE) {}
+
+  push(entry: LogEntry): void {
+    if (this.capacity <= 0) {
+      return
+    }
+    if (this.buffer.length >= this.capacity) {
+      this.buffer.shift()
+    }
+    this.buffer.push(entry)
+  }
+
+  /**
+   * @returns the buffered messages, oldest first
+   */
+  entries(): LogEntry[] {
+    return [...this.buffer]
+  }
+
+  clear(): void {
+    this.buffer.length = 0
+  }
+}
+
+/**
+ * A {@link Logger} that attaches context, filters by level and redacts
+ * secrets before writing to another logger.
+ */
+export class ContextLogger implements Logger {
+  constructor(
+    private readonly sink: Logger,
+    private readonly opts: {
+      /** Messages below this level are not written to the sink */
+      level?: LogLevel
+      /** Buffer that all messages are recorded in, regardless of level */
+      buffer?: LogBuffer
+      context?: LogContext
+    } = {},
+  ) {}
+
+  /**
+   * Creates a logger that adds to the context of this logger, sharing its sink, level and buffer.
+   */
+  withContext(context: LogContext): ContextLogger {
+    return new ContextLogger(this.sink, {
+      ...this.opts,
+      context: { ...this.opts.context, ...context },
+    })
+  }
+
+  trace(...data: unknown[]): void {
+    this.write(LogLevel.Trace, "trace", data)
+  }
+
+  debug(...data: unknown[]): void {
+    this.write(LogLevel.Debug, "debug", data)
+  }
+
+  log(...data: unknown[]): void {
+    this.write(LogLevel.Info, "log", data)
+  }
+
+  info(...data: unknown[]): void {
+    this.write(LogLevel.Info, "info", data)
+  }
+
+  warn(...data: unknown[]): void {
+    this.write(LogLevel.Warn, "warn", data)
+  }
+
+  error(...data: unknown[]): void {
+    this.write(LogLevel.Error, "error", data)
+  }
+
+  private write(
+    level: Exclude<LogLevel, LogLevel.Silent>,
+    method: keyof Logger,
+    data: unknown[],
+  ) {
+    const context = this.opts.context ?? {}
+    const redacted = data.map((value) => redact(value))
+
+    this.opts.buffer?.push({ time: Date.now(), level, context, data: redacted })
+
+    if (
+      LEVEL_ORDER.indexOf(level) <
+      LEVEL_ORDER.indexOf(this.opts.level ?? LogLevel.Trace)
+    ) {
+      return
+    }
+
+    if (Object.keys(context).length) {
+      this.sink[method](...redacted, context)
+    } else {
+      this.sink[method](...redacted)
+    }
+  }
+}
+
+/**
+ * Adds context to a logger if it is a {@link ContextLogger}, otherwise returns the logger unchanged.
+ */
+export function withLogContext(logger: Logger, context: LogContext): Logger {
+  return logger instanceof ContextLogger ? logger.withContext(context) : logger
+}
+
+/**
+ * Redacts secrets from a value to be logged. Values of object keys that look
+ * like secrets are replaced, as are bearer tokens, JWTs and secret query
+ * parameters or JSON fields within strings. Errors are logged unchanged.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return redactString(value)
+  }
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    value instanceof Error ||
+    depth >= MAX_REDACT_DEPTH
+  ) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1))
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) && item !== undefined
+        ? REDACTED
+        : redact(item, depth + 1),
+    ]),
+  )
+}
+
+function redactString(value: string): string {
+  return (
+    value
+      .replace(/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`)
+      // JWTs, which always start with an encoded `{"`
+      .replace(/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED)
+      // Query parameters, e.g. `?nonce=...`
+      .replace(
+        /([?&][^=&\s]*(?:token|nonce)[^=&\s]*=)[^&\s"']*/gi,
+        `$1${REDACTED}`,
+      )
+      // JSON fields, e.g. in response bodies
+      .replace(
+        /("[^"]*(?:token|nonce|authorization|secret|password)[^"]*"\s*:\s*")[^"]*"/gi,
+        `$1${REDACTED}"`,
+      )
+  )
+}
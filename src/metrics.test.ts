@@ -0,0 +1,59 @@
+import { MetricsCollector, StreamMilestone } from "./metrics"
+import { SessionState } from "./session"
+
+describe("MetricsCollector", () => {
+  let now = 0
+  const collector = () => new MetricsCollector("stream", () => now)
+
+  beforeEach(() => {
+    now = 1000
+  })
+
+  it("should compute the time to first frame and time in queue", () => {
+    const metrics = collector()
+    metrics.mark(StreamMilestone.SetupRequested)
+    metrics.markSessionState(SessionState.Queued)
+    now = 5000
+    metrics.markSessionState(SessionState.Queued)
+    metrics.markSessionState(SessionState.Ready)
+    now = 6000
+    metrics.mark(StreamMilestone.StartRequested)
+    now = 9000
+    metrics.mark(StreamMilestone.StreamStarted)
+    now = 19_000
+    metrics.mark(StreamMilestone.Terminated)
+
+    expect(metrics.collect()).toEqual({
+      streamId: "stream",
+      milestones: {
+        [StreamMilestone.SetupRequested]: 1000,
+        [`session:${SessionState.Queued}`]: 1000,
+        [`session:${SessionState.Ready}`]: 5000,
+        [StreamMilestone.StartRequested]: 6000,
+        [StreamMilestone.StreamStarted]: 9000,
+        [StreamMilestone.Terminated]: 19_000,
+      },
+      timeToFirstFrameMillis: 8000,
+      timeInQueueMillis: 4000,
+      streamingMillis: 10_000,
+    })
+  })
+
+  it("should report no time in queue if the session was ready immediately", () => {
+    const metrics = collector()
+    metrics.markSessionState(SessionState.Active)
+
+    expect(metrics.collect().timeInQueueMillis).toBe(0)
+  })
+
+  it("should measure from the start request without a setup", () => {
+    const metrics = collector()
+    metrics.mark(StreamMilestone.StartRequested)
+    now = 3000
+    metrics.mark(StreamMilestone.StreamStarted)
+
+    const { timeToFirstFrameMillis, timeInQueueMillis } = metrics.collect()
+    expect(timeToFirstFrameMillis).toBe(2000)
+    expect(timeInQueueMillis).toBeUndefined()
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Timing of each step in the lifecycle of a stream, from requesting a session
+ * to the stream terminating.
+ *
+ * @module
+ */
+
+import { SessionState } from "./session"
+
+/**
+ * Steps in the lifecycle of a stream that are timestamped.
+ */
+export enum StreamMilestone {
+  /** The session was requested by {@link StreamingClient.setup} */
+  SetupRequested = "setupRequested",
+  /** The stream was requested by {@link StreamingClient.start} */
+  StartRequested = "startRequested",
+  /** The GFN SDK script finished loading */
+  GFNScriptLoaded = "gfnScriptLoaded",
+  /** The GFN client was initialized */
+  GFNInitialized = "gfnInitialized",
+  /** The user was logged in to GFN with the session nonce */
+  GFNLoggedIn = "gfnLoggedIn",
+  /** The GFN SDK accepted the request to start the stream */
+  GFNStreamerStarted = "gfnStreamerStarted",
+  /** The provider reported the stream has started, i.e. the first frame */
+  StreamStarted = "streamStarted",
+  /** The stream terminated */
+  Terminated = "terminated",
+}
+
+/**
+ * Timestamps recorded for a stream, in milliseconds since the epoch. Session
+ * states are recorded the first time the session enters each state.
+ */
+export type StreamMilestones = Partial<
+  Record<StreamMilestone | `session:${SessionState}`, number>
+>
+
+/**
+ * Metrics for a stream, emitted once the stream starts and again once it terminates.
+ */
+export type StreamMetrics = {
+  streamId: string
+  milestones: StreamMilestones
+  /** Time from the session (or, without a session, the stream) being requested to the stream starting */
+  timeToFirstFrameMillis?: number
+  /** Time the session spent waiting in the queue */
+  timeInQueueMillis?: number
+  /** Time from the stream starting to it terminating */
+  streamingMillis?: number
+}
+
+/**
+ * Receives the metrics for each stream, e.g. to forward them to an analytics backend.
+ */
+export type MetricsReporter = {
+  report(metrics: StreamMetrics): void | Promise<void>
+}
+
+/**
+ * Records a milestone for the stream being started.
+ */
+export type MarkMilestone = (milestone: StreamMilestone) => void
+
+const WAITING_STATES = [SessionState.Queued, SessionState.Admitted]
+const ADMITTED_STATES = [
+  SessionState.Ready,
+  SessionState.Pending,
+  SessionState.Active,
+]
+
+/**
+ * Collects the milestones of a single stream.
+ */
+export class MetricsCollector {
+  private readonly milestones: StreamMilestones = {}
+
+  constructor(
+    readonly streamId: string,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Records the time of a milestone, if it has not already been recorded.
+   */
+  mark(milestone: StreamMilestone | `session:${SessionState}`): void {
+    this.milestones[milestone] ??= this.now()
+  }
+
+  /**
+   * Records the time the session entered a state, if it has not already been recorded.
+   */
+  markSessionState(state: SessionState): void {
+    this.mark(`session:${state}`)
+  }
+
+  /**
+   * Computes the metrics from the milestones recorded so far.
+   */
+  collect(): StreamMetrics {
+    const m = this.milestones
+    const requested =
+      m[StreamMilestone.SetupRequested] ?? m[StreamMilestone.StartRequested]
+    const started = m[StreamMilestone.StreamStarted]
+    const terminated = m[StreamMilestone.Terminated]
+
+    return {
+      streamId: this.streamId,
+      milestones: { ...m },
+      timeToFirstFrameMillis: between(requested, started),
+      timeInQueueMillis: this.timeInQueue(),
+      streamingMillis: between(started, terminated),
+    }
+  }
+
+  private timeInQueue(): number | undefined {
+    const admitted = earliest(
+      ADMITTED_STATES.map((state) => this.milestones[`session:${state}`]),
+    )
+    if (admitted === undefined) {
+      return
+    }
+
+    const queued = earliest(
+      WAITING_STATES.map((state) => this.milestones[`session:${state}`]),
+    )
+    return queued === undefined ? 0 : Math.max(admitted - queued, 0)
+  }
+}
+
+function between(from?: number, to?: number): number | undefined {
+  return from === undefined || to === undefined ? undefined : to - from
+}
+
+function earliest(times: (number | undefined)[]): number | undefined {
+  const defined = times.filter((time) => time !== undefined)
+  return defined.length ? Math.min(...defined) : undefined
+}
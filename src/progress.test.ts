@@ -0,0 +1,73 @@
+import { SessionProgressTracker } from "./progress"
+import { SessionState } from "./session"
+
+describe("SessionProgressTracker", () => {
+  let now = 0
+  const tracker = () => new SessionProgressTracker(() => now)
+
+  beforeEach(() => {
+    now = 1000
+  })
+
+  it("should record when each state was first entered", () => {
+    const progress = tracker()
+    progress.update({ sessionId: "s", state: SessionState.Queued })
+    now = 2000
+    progress.update({ sessionId: "s", state: SessionState.Queued })
+    now = 3000
+    const detail = progress.update({
+      sessionId: "s",
+      state: SessionState.Ready,
+    })
+
+    expect(detail.state).toBe(SessionState.Ready)
+    expect(detail.enteredAt).toEqual({
+      [SessionState.Queued]: 1000,
+      [SessionState.Ready]: 3000,
+    })
+  })
+
+  it("should pass through the backend queue position and estimate", () => {
+    const detail = tracker().update({
+      sessionId: "s",
+      state: SessionState.Queued,
+      queuePosition: 4,
+      estimatedWaitSeconds: 30,
+    })
+
+    expect(detail.queuePosition).toBe(4)
+    expect(detail.estimatedWaitMillis).toBe(30_000)
+  })
+
+  it("should estimate the wait from the rate the queue moves", () => {
+    const progress = tracker()
+    const queued = (queuePosition: number) =>
+      progress.update({
+        sessionId: "s",
+        state: SessionState.Queued,
+        queuePosition,
+      })
+
+    expect(queued(10).clientEstimatedWaitMillis).toBeUndefined()
+    now = 11_000
+    // Moved 2 places in 10 seconds, so 8 places should take 40 seconds.
+    expect(queued(8).clientEstimatedWaitMillis).toBe(40_000)
+  })
+
+  it("should not estimate the wait if the queue has not moved", () => {
+    const progress = tracker()
+    progress.update({
+      sessionId: "s",
+      state: SessionState.Queued,
+      queuePosition: 3,
+    })
+    now = 6000
+    const detail = progress.update({
+      sessionId: "s",
+      state: SessionState.Queued,
+      queuePosition: 3,
+    })
+
+    expect(detail.clientEstimatedWaitMillis).toBeUndefined()
+  })
+})
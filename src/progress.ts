@@ -0,0 +1,89 @@
+/**
+ * Tracks the progress of a session through the queue, so that waiting rooms
+ * can show more than a spinner.
+ *
+ * @module
+ */
+
+import { type Session, SessionState } from "./session"
+
+/**
+ * Detail of a session state update.
+ */
+export type SessionStateDetail = {
+  /** The current session state */
+  state: SessionState
+  /** The position of the session in the queue, if provided by the backend */
+  queuePosition?: number
+  /** The estimated wait until the session is ready in milliseconds, if provided by the backend */
+  estimatedWaitMillis?: number
+  /**
+   * The estimated wait until the session is ready in milliseconds, computed
+   * from how quickly the queue position has changed while polling. Only
+   * available once the session has moved forward in the queue.
+   */
+  clientEstimatedWaitMillis?: number
+  /** The time each state was first entered, in milliseconds since the epoch */
+  enteredAt: Partial<Record<SessionState, number>>
+}
+
+type Sample = {
+  time: number
+  position: number
+}
+
+/**
+ * Builds {@link SessionStateDetail} values from the sessions returned while
+ * polling. A new tracker should be used for each session.
+ */
+export class SessionProgressTracker {
+  private readonly enteredAt: Partial<Record<SessionState, number>> = {}
+  private readonly samples: Sample[] = []
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Records a session returned by the backend.
+   * @returns the detail for the current state of the session
+   */
+  update(session: Session): SessionStateDetail {
+    const time = this.now()
+    const state = session.state as SessionState
+    this.enteredAt[state] ??= time
+
+    if (state === SessionState.Queued && session.queuePosition !== undefined) {
+      this.samples.push({ time, position: session.queuePosition })
+    }
+
+    return {
+      state,
+      queuePosition: session.queuePosition,
+      estimatedWaitMillis:
+        session.estimatedWaitSeconds !== undefined
+          ? session.estimatedWaitSeconds * 1000
+          : undefined,
+      clientEstimatedWaitMillis:
+        state === SessionState.Queued ? this.estimateWait() : undefined,
+      enteredAt: { ...this.enteredAt },
+    }
+  }
+
+  /**
+   * Estimates the remaining wait from the average rate the queue position has
+   * decreased since the first sample.
+   */
+  private estimateWait(): number | undefined {
+    const first = this.samples[0]
+    const last = this.samples[this.samples.length - 1]
+    if (!first || !last || last.time <= first.time) {
+      return
+    }
+
+    const rate = (first.position - last.position) / (last.time - first.time)
+    if (rate <= 0) {
+      return
+    }
+
+    return Math.round(last.position / rate)
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * The contract between the {@link StreamingClient} and a streaming service.
+ *
+ * The client owns the Morpheus session and the stream state, while an adapter
+ * owns everything specific to the streaming service: loading SDKs, starting and
+ * stopping the stream and reporting when it has started or terminated.
+ *
+ * @module
+ */
+
+import type { StreamProfile } from "./gfn/profile"
+import type { MarkMilestone } from "./metrics"
+import type { Span, Tracer } from "./tracing"
+
+/**
+ * Options for loading a provider.
+ */
+export type LoadOptions = {
+  /** Records when each step of loading the provider completes */
+  mark?: MarkMilestone
+  /** Tracer used to trace loading the provider */
+  tracer?: Tracer
+  /** The span of the operation loading the provider is part of */
+  parent?: Span
+}
+
+/**
+ * Options for starting an embedded stream.
+ */
+export type EmbeddedStartOptions = {
+  /** The resolution and frame rate to stream at, if supported by the provider */
+  streamProfile?: StreamProfile
+  /** The name of the zone to stream from, if supported by the provider */
+  zone?: string
+  /** Records when each step of starting the stream completes */
+  mark?: MarkMilestone
+}
+
+/**
+ * Severity of a {@link StreamDiagnostic}.
+ */
+export enum StreamDiagnosticSeverity {
+  Info = "info",
+  Warning = "warning",
+  Error = "error",
+}
+
+/**
+ * A diagnostic reported by the provider while a stream is running, such as a
+ * warning that the service is entering maintenance.
+ */
+export type StreamDiagnostic = {
+  severity: StreamDiagnosticSeverity
+  /** The provider's code for the diagnostic */
+  code?: number
+  /** The name of the code, if it is known */
+  codeName?: string
+  message?: string
+  /** The provider's own level for the diagnostic */
+  level?: number
+}
+
+/**
+ * Callbacks provided to a {@link StreamProviderAdapter} to report the lifecycle of a stream.
+ */
+export type StreamProviderCallbacks = {
+  /** Called once the stream is running */
+  onStarted: () => void
+  /** Called when the stream terminates, with an error if it terminated unexpectedly */
+  onTerminated: (e?: Error) => void
+  /** Called when the provider reports a diagnostic */
+  onDiagnostic?: (diagnostic: StreamDiagnostic) => void
+}
+
+/**
+ * Adapter for a streaming service provider.
+ *
+ * @template Config - The provider configuration returned by the session
+ */
+export type StreamProviderAdapter<Config = unknown> = {
+  /**
+   * Loads and initializes anything needed before an embedded stream can start.
+   * @returns an error if the provider could not be loaded
+   */
+  load(opts?: LoadOptions): Promise<undefined | Error>
+  /**
+   * Starts a stream embedded into the element.
+   * @returns an error if the stream could not be started
+   */
+  startEmbedded(
+    element: HTMLElement,
+    config: Config,
+    opts?: EmbeddedStartOptions,
+  ): Promise<undefined | Error>
+  /**
+   * Builds the URL to load in a new window or tab for a {@link StreamTarget.Window} stream.
+   * If a `state` is given it should be passed back when the provider redirects back to the app.
+   */
+  buildWindowUrl(
+    config: Config,
+    opts: { fullscreen: boolean; state?: string },
+  ): string
+  /**
+   * Reads the termination error, if any, from the query parameters of the
+   * redirect back to the app after a {@link StreamTarget.Window} stream ends.
+   * Only providers that redirect back to the app implement this, and a `state`
+   * is only passed to {@link StreamProviderAdapter.buildWindowUrl} for them.
+   */
+  parseWindowReturn?(params: URLSearchParams): Error | undefined
+  /**
+   * Starts any work the provider needs to do in this page while the stream is
+   * running in another window.
+   * @returns a function that stops that work
+   */
+  startWindow?(config: Config): () => void
+  /** Stops the running stream */
+  stop(): void
+  /**
+   * Registers callbacks to be notified when the stream starts or terminates.
+   * @returns a function that removes the callbacks
+   */
+  listen(callbacks: StreamProviderCallbacks): () => void
+  /**
+   * Stops any running stream and releases everything the provider holds, such
+   * as listeners and timers. The provider may be loaded again afterwards.
+   */
+  dispose?(): void
+}
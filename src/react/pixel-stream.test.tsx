@@ -0,0 +1,108 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act } from "react"
+import { createRoot } from "react-dom/client"
+import { StreamingClient } from "../client"
+import { SessionRequestError } from "../session"
+import { mockLogger } from "../test-utils"
+import { PixelStream, type PixelStreamProps } from "./pixel-stream"
+import { settle } from "./test-utils"
+
+const logger = mockLogger()
+
+const clientOptions = {
+  // Sessions are not requested, as starting the stream is mocked.
+  fetch: jest.fn(),
+  logger,
+  skipBrowserSupportChecks: true,
+}
+
+function sessionError(message: string) {
+  return new SessionRequestError(message, {
+    path: "/api/sessions",
+    status: 503,
+  })
+}
+
+function render(props: Partial<PixelStreamProps>) {
+  const container = document.createElement("div")
+  const root = createRoot(container)
+  act(() =>
+    root.render(
+      <PixelStream
+        organizationId="org"
+        projectId="project"
+        worldId="world"
+        authToken="token"
+        clientOptions={clientOptions}
+        {...props}
+      />,
+    ),
+  )
+  return { container, unmount: () => act(() => root.unmount()) }
+}
+
+describe("PixelStream", () => {
+  let setup: jest.SpyInstance
+  let retry: (() => void) | undefined
+  const renderError: PixelStreamProps["renderError"] = (props) => {
+    retry = props.retry
+    return props.error.message
+  }
+
+  beforeEach(() => {
+    setup = jest.spyOn(StreamingClient.prototype, "setup")
+    retry = undefined
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("should render the error the stream failed to start with", async () => {
+    setup.mockResolvedValue(sessionError("failed to create session"))
+    const onError = jest.fn()
+    const { container, unmount } = render({ renderError, onError })
+    await settle()
+
+    expect(container.textContent).toBe("failed to create session")
+    expect(onError).toHaveBeenCalledTimes(1)
+    unmount()
+  })
+
+  it("should start the stream again once retried", async () => {
+    setup
+      .mockResolvedValueOnce(sessionError("failed to create session"))
+      .mockResolvedValueOnce(sessionError("failed again"))
+    const onRetry = jest.fn().mockResolvedValue(undefined)
+    const { container, unmount } = render({ renderError, onRetry })
+    await settle()
+
+    act(() => retry?.())
+    await settle()
+
+    expect(onRetry).toHaveBeenCalledTimes(1)
+    expect(setup).toHaveBeenCalledTimes(2)
+    expect(container.textContent).toBe("failed again")
+    unmount()
+  })
+
+  it("should render the error once onRetry rejects", async () => {
+    setup.mockResolvedValue(sessionError("failed to create session"))
+    const error = new Error("failed to refresh token")
+    const onRetry = jest.fn().mockRejectedValue(error)
+    const onError = jest.fn()
+    const { container, unmount } = render({ renderError, onRetry, onError })
+    await settle()
+
+    act(() => retry?.())
+    await settle()
+
+    expect(setup).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenLastCalledWith(error)
+    expect(container.textContent).toBe("failed to refresh token")
+    unmount()
+  })
+})
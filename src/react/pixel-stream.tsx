@@ -0,0 +1,158 @@
+"use client"
+
+import {
+  type CSSProperties,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react"
+import { StreamState, StreamTarget } from "../client"
+import errors from "../errors"
+import type { StreamProfile } from "../gfn/profile"
+import { SessionState } from "../session"
+import {
+  type UsePixelStreamingParams,
+  usePixelStreaming,
+} from "./use-pixel-streaming"
+
+export type PixelStreamProps = UsePixelStreamingParams & {
+  /**
+   * Whether to start streaming once mounted, otherwise the stream is started by calling `start` from the idle slot.
+   * @default true
+   */
+  autoStart?: boolean
+  /** The resolution and frame rate to stream at */
+  streamProfile?: StreamProfile
+  /** The name of the zone to stream from */
+  zone?: string
+  className?: string
+  style?: CSSProperties
+  /** Rendered before the stream has been started, or after it has been stopped */
+  renderIdle?: (props: { start: () => void }) => ReactNode
+  /** Rendered over the stream while waiting in the queue */
+  renderQueued?: (props: { position?: number }) => ReactNode
+  /** Rendered over the stream while the session is being created and the stream is loading */
+  renderLoading?: () => ReactNode
+  /** Rendered over the stream while streaming, e.g. controls */
+  renderStreaming?: (props: { stop: () => void }) => ReactNode
+  /** Rendered once the stream has ended without an error */
+  renderTerminated?: (props: { retry: () => void }) => ReactNode
+  /** Rendered once the stream has failed to start or ended with an error */
+  renderError?: (props: { error: Error; retry: () => void }) => ReactNode
+  /** Called before the stream is restarted by `retry`, e.g. to refresh the auth token */
+  onRetry?: () => void | Promise<void>
+  onError?: (error: Error) => void
+}
+
+/**
+ * Embeds a stream of the world, rendering the slot matching the state of the
+ * stream over it. Slots that are not provided render nothing.
+ *
+ * @example
+ * ```tsx
+ * <PixelStream
+ *   organizationId="org"
+ *   projectId="project"
+ *   worldId="world"
+ *   authToken={token}
+ *   renderQueued={({ position }) => <p>You are number {position} in the queue</p>}
+ *   renderError={({ error, retry }) => <button onClick={retry}>Retry</button>}
+ * />
+ * ```
+ */
+export function PixelStream({
+  autoStart = true,
+  streamProfile,
+  zone,
+  className,
+  style,
+  renderIdle,
+  renderQueued,
+  renderLoading,
+  renderStreaming,
+  renderTerminated,
+  renderError,
+  onRetry,
+  onError,
+  ...params
+}: PixelStreamProps) {
+  const {
+    streamState,
+    sessionState,
+    queuePosition,
+    error,
+    startStreaming,
+    stopStreaming,
+  } = usePixelStreaming(params)
+  const containerRef = useRef<HTMLDivElement>(null)
+  // The hook only knows about errors of the stream, not of `onRetry`.
+  const [retryError, setRetryError] = useState<Error | undefined>()
+
+  const start = useCallback(() => {
+    const container = containerRef.current
+    if (!container) {
+      return
+    }
+
+    startStreaming({
+      streamTarget: {
+        target: StreamTarget.Embedded,
+        container,
+        streamProfile,
+        zone,
+      },
+      onError,
+    })
+  }, [startStreaming, streamProfile, zone, onError])
+
+  const retry = useCallback(() => {
+    setRetryError(undefined)
+    Promise.resolve()
+      .then(() => onRetry?.())
+      .then(start, (e) => {
+        const error = errors.wrap(e)
+        setRetryError(error)
+        onError?.(error)
+      })
+  }, [onRetry, start, onError])
+
+  // Only starts once, rather than whenever the callbacks change.
+  const startRef = useRef(start)
+  startRef.current = start
+  useEffect(() => {
+    if (autoStart) {
+      startRef.current()
+    }
+  }, [autoStart])
+
+  const shownError = retryError ?? error
+  let overlay: ReactNode = null
+  if (shownError) {
+    overlay = renderError?.({ error: shownError, retry })
+  } else if (streamState === StreamState.Streaming) {
+    overlay = renderStreaming?.({ stop: stopStreaming })
+  } else if (streamState === StreamState.Terminated) {
+    overlay = renderTerminated?.({ retry })
+  } else if (
+    sessionState === SessionState.Queued ||
+    sessionState === SessionState.Admitted
+  ) {
+    overlay = renderQueued?.({ position: queuePosition })
+  } else if (streamState === StreamState.Idle) {
+    overlay = renderIdle?.({ start })
+  } else {
+    overlay = renderLoading?.()
+  }
+
+  return (
+    <div className={className} style={{ position: "relative", ...style }}>
+      {/* The provider renders the stream into this element, so it has no React children. */}
+      <div ref={containerRef} style={{ width: "100%", height: "100%" }} />
+      {overlay !== null && overlay !== undefined && (
+        <div style={{ position: "absolute", inset: 0 }}>{overlay}</div>
+      )}
+    </div>
+  )
+}
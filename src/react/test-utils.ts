@@ -0,0 +1,9 @@
+import { act } from "react"
+
+// Tells React that updates are wrapped in `act`, as they are in the tests.
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true })
+
+/** Waits for the stream to settle, e.g. failing to start */
+export async function settle() {
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)))
+}
@@ -0,0 +1,207 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act } from "react"
+import { createRoot } from "react-dom/client"
+import {
+  type SessionStateUpdatedEvent,
+  StreamingClient,
+  StreamProvider,
+  StreamState,
+  StreamTarget,
+} from "../client"
+import {
+  SessionAbortedError,
+  SessionRequestError,
+  SessionState,
+} from "../session"
+import { mockLogger } from "../test-utils"
+import { settle } from "./test-utils"
+import {
+  type UsePixelStreamingParams,
+  type UsePixelStreamingResult,
+  usePixelStreaming,
+} from "./use-pixel-streaming"
+
+const logger = mockLogger()
+
+const params: UsePixelStreamingParams = {
+  organizationId: "org",
+  projectId: "project",
+  worldId: "world",
+  authToken: "token",
+  // Sessions are not requested, as starting the stream is mocked.
+  clientOptions: { fetch: jest.fn(), logger, skipBrowserSupportChecks: true },
+}
+
+function sessionError(message: string) {
+  return new SessionRequestError(message, {
+    path: "/api/sessions",
+    status: 503,
+  })
+}
+
+function streamTarget() {
+  return {
+    target: StreamTarget.Embedded,
+    container: document.createElement("div"),
+  } as const
+}
+
+function renderHook(overrides: Partial<UsePixelStreamingParams> = {}) {
+  const hookParams = { ...params, ...overrides }
+  let result: UsePixelStreamingResult | undefined
+  function Test() {
+    result = usePixelStreaming(hookParams)
+    return null
+  }
+
+  const root = createRoot(document.createElement("div"))
+  act(() => root.render(<Test />))
+  return {
+    result: () => {
+      if (!result) {
+        throw new Error("hook was not rendered")
+      }
+      return result
+    },
+    unmount: () => act(() => root.unmount()),
+  }
+}
+
+describe("usePixelStreaming", () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("should report the error the stream failed to start with", async () => {
+    const error = sessionError("failed to create session")
+    jest.spyOn(StreamingClient.prototype, "setup").mockResolvedValue(error)
+    const onError = jest.fn()
+    const { result, unmount } = renderHook()
+
+    act(() =>
+      result().startStreaming({ streamTarget: streamTarget(), onError }),
+    )
+    await settle()
+
+    expect(result().error).toBe(error)
+    expect(onError).toHaveBeenCalledWith(error)
+    unmount()
+  })
+
+  it("should leave the queue once cancelled", async () => {
+    let signal: AbortSignal | undefined
+    jest
+      .spyOn(StreamingClient.prototype, "setup")
+      .mockImplementation(async function (this: StreamingClient, opts) {
+        signal = opts.signal
+        // The hook listens once the session has been returned.
+        await Promise.resolve()
+        this.dispatchEvent(
+          new CustomEvent("sessionStateUpdated", {
+            detail: {
+              state: SessionState.Queued,
+              queuePosition: 3,
+              enteredAt: {},
+            },
+          }) as SessionStateUpdatedEvent,
+        )
+        return new Promise((resolve) => {
+          opts.signal?.addEventListener("abort", () =>
+            resolve(new SessionAbortedError("session request aborted")),
+          )
+        })
+      })
+    const onError = jest.fn()
+    const { result, unmount } = renderHook()
+
+    act(() =>
+      result().startStreaming({ streamTarget: streamTarget(), onError }),
+    )
+    await settle()
+    expect(result().sessionState).toBe(SessionState.Queued)
+    expect(result().queuePosition).toBe(3)
+
+    act(() => result().cancel())
+    await settle()
+
+    expect(signal?.aborted).toBe(true)
+    expect(result().streamState).toBe(StreamState.Idle)
+    expect(result().sessionState).toBeUndefined()
+    expect(result().queuePosition).toBeUndefined()
+    expect(result().error).toBeUndefined()
+    expect(onError).not.toHaveBeenCalled()
+    unmount()
+  })
+
+  it("should retry with the parameters streaming was last started with", async () => {
+    const setup = jest
+      .spyOn(StreamingClient.prototype, "setup")
+      .mockResolvedValueOnce(sessionError("failed to create session"))
+      .mockResolvedValueOnce(sessionError("failed again"))
+    const onError = jest.fn()
+    const { result, unmount } = renderHook()
+
+    act(() =>
+      result().startStreaming({ streamTarget: streamTarget(), onError }),
+    )
+    await settle()
+    act(() => result().retry())
+    await settle()
+
+    expect(setup).toHaveBeenCalledTimes(2)
+    expect(onError).toHaveBeenCalledTimes(2)
+    expect(result().error?.message).toBe("failed again")
+    unmount()
+  })
+
+  it("should request the forced provider", async () => {
+    const setup = jest
+      .spyOn(StreamingClient.prototype, "setup")
+      .mockResolvedValue(sessionError("failed to create session"))
+    const { result, unmount } = renderHook({
+      forceProvider: StreamProvider.GeforceNow,
+    })
+
+    act(() => result().startStreaming({ streamTarget: streamTarget() }))
+    await settle()
+
+    expect(setup).toHaveBeenCalledWith(
+      expect.objectContaining({ forceProvider: StreamProvider.GeforceNow }),
+    )
+    unmount()
+  })
+
+  it("should authenticate with a token from the factory", async () => {
+    const authToken = jest.fn(async () => "factory-token")
+    const fetch = jest.fn(async () => {
+      throw new Error("offline")
+    })
+    const { result, unmount } = renderHook({
+      authToken,
+      clientOptions: { fetch, logger, skipBrowserSupportChecks: true },
+    })
+
+    act(() => result().startStreaming({ streamTarget: streamTarget() }))
+    await settle()
+
+    expect(authToken).toHaveBeenCalled()
+    const [, init] = fetch.mock.calls[0] as unknown as [URL, RequestInit]
+    expect(new Headers(init.headers).get("Authorization")).toBe(
+      "Bearer factory-token",
+    )
+    unmount()
+  })
+
+  it("should dispose the client once unmounted", () => {
+    const dispose = jest.spyOn(StreamingClient.prototype, "dispose")
+    const { unmount } = renderHook()
+    expect(dispose).not.toHaveBeenCalled()
+
+    unmount()
+
+    expect(dispose).toHaveBeenCalledTimes(1)
+  })
+})
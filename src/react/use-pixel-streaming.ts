@@ -3,37 +3,54 @@
 import { useCallback, useEffect, useRef, useState } from "react"
 import type {
   ClientOptions,
-  SessionStateUpdatedEvent,
-  StreamingClientErrorEvent,
-  TargetOpts,
-} from "../client"
-import {
-  StreamingClient,
-  StreamingClientError,
   StreamProvider,
-  StreamState,
-  type StreamStateUpdatedEvent,
+  StreamSession,
+  TargetOpts,
 } from "../client"
-import type { GeforceStreamConfig, SessionState } from "../session"
+import { StreamingClient, StreamState } from "../client"
+import type { SessionState } from "../session"
+import type { Token } from "../types"
 
 export type StartStreamingParams = Readonly<{
   streamTarget: TargetOpts
   onError?: (error: Error) => void
 }>
 
-type UsePixelStreamingParams = Readonly<{
+export type UsePixelStreamingParams = Readonly<{
   organizationId: string
   projectId: string
   worldId: string
-  authToken: string
+  /**
+   * The bearer token or a factory to obtain one. A new factory discards any
+   * token cached from the previous factory, so factories should be memoized.
+   */
+  authToken: Token
+  /**
+   * A provider to request instead of letting the backend choose.
+   * @default the provider chosen by the backend
+   */
+  forceProvider?: StreamProvider
   clientOptions?: Omit<ClientOptions, "auth">
 }>
 
 export type UsePixelStreamingResult = {
   streamState: StreamState
   sessionState: SessionState | undefined
+  /** The position of the session in the queue, while queued */
+  queuePosition: number | undefined
+  /** The error the last stream failed to start or ended with, cleared when a new stream is started */
+  error: Error | undefined
+  /** The ID of the session of the current stream, once the session is ready */
+  sessionId: string | undefined
+  /** The ID of the current stream, once its session is ready */
+  streamId: string | undefined
+  /** Starts streaming, stopping any current stream. Errors are reported to `onError` and as `error`. */
   startStreaming: (params: StartStreamingParams) => void
   stopStreaming: () => void
+  /** Starts streaming again with the parameters of the last call to `startStreaming` */
+  retry: () => void
+  /** Stops waiting for the stream to start, e.g. leaving the queue. Has no effect once streaming. */
+  cancel: () => void
   getBrowserSupport: () => Record<StreamProvider, boolean>
 }
 
@@ -42,120 +59,88 @@ export function usePixelStreaming({
   projectId,
   worldId,
   authToken,
+  forceProvider,
   clientOptions,
 }: UsePixelStreamingParams): UsePixelStreamingResult {
   const [streamState, setStreamState] = useState<StreamState>(StreamState.Idle)
   const [sessionState, setSessionState] = useState<SessionState | undefined>()
-  const [token, setToken] = useState<string>(authToken)
+  const [queuePosition, setQueuePosition] = useState<number | undefined>()
+  const [error, setError] = useState<Error | undefined>()
+  const [ids, setIds] = useState<{ sessionId?: string; streamId?: string }>({})
 
   const streamingClientRef = useRef<StreamingClient | null>(null)
-  const eventHandlersRef = useRef<{
-    onStreamStateUpdate: (event: StreamStateUpdatedEvent) => void
-    onSessionStateUpdate: (event: SessionStateUpdatedEvent) => void
-    onErrorEvent: (error: StreamingClientErrorEvent) => void
-  } | null>(null)
+  const sessionRef = useRef<StreamSession | null>(null)
+  const lastParamsRef = useRef<StartStreamingParams | null>(null)
+  const tokenRef = useRef(authToken)
 
   const stopStreaming = useCallback(() => {
-    if (!streamingClientRef.current) {
-      return
-    }
+    sessionRef.current?.stop()
+    sessionRef.current = null
 
-    if (eventHandlersRef.current) {
-      const { onStreamStateUpdate, onSessionStateUpdate, onErrorEvent } =
-        eventHandlersRef.current
-      streamingClientRef.current.removeEventListener(
-        "streamStateUpdated",
-        onStreamStateUpdate,
-      )
-      streamingClientRef.current.removeEventListener(
-        "sessionStateUpdated",
-        onSessionStateUpdate,
-      )
-      streamingClientRef.current.removeEventListener("error", onErrorEvent)
-    }
-
-    streamingClientRef.current.stop()
     setStreamState(StreamState.Idle)
     setSessionState(undefined)
+    setQueuePosition(undefined)
+    setIds({})
   }, [])
 
   const startStreaming = useCallback(
-    async ({ streamTarget, onError = () => {} }: StartStreamingParams) => {
-      if (!streamingClientRef.current) {
+    (params: StartStreamingParams) => {
+      const client = streamingClientRef.current
+      if (!client) {
         return
       }
 
       stopStreaming()
+      lastParamsRef.current = params
+      setError(undefined)
 
-      const onStreamStateUpdate = (event: StreamStateUpdatedEvent) => {
-        setStreamState(event.detail.state)
-      }
-
-      const onSessionStateUpdate = (event: SessionStateUpdatedEvent) => {
-        setSessionState(event.detail)
-      }
-
-      const onErrorEvent = (error: StreamingClientErrorEvent) => {
-        onError(error.detail)
-      }
-
-      eventHandlersRef.current = {
-        onStreamStateUpdate,
-        onSessionStateUpdate,
-        onErrorEvent,
-      }
-
-      streamingClientRef.current.addEventListener(
-        "streamStateUpdated",
-        onStreamStateUpdate,
-      )
-      streamingClientRef.current.addEventListener(
-        "sessionStateUpdated",
-        onSessionStateUpdate,
-      )
-      streamingClientRef.current.addEventListener("error", onErrorEvent)
-
-      const config = await streamingClientRef.current.setup({
+      const session = client.connect({
         projectId,
         worldId,
-        forceProvider: StreamProvider.GeforceNow,
+        forceProvider,
+        ...params.streamTarget,
       })
+      sessionRef.current = session
+      setStreamState(session.state.stream)
 
-      if (!config) {
-        onError(new Error("Failed to fetch stream config"))
-        return
-      }
+      // Events from a session that has since been stopped are ignored.
+      const isCurrent = () => sessionRef.current === session
 
-      if (config.config?.name !== StreamProvider.GeforceNow) {
-        onError(new Error(`Unsupported provider: ${config.config?.name}`))
-        return
-      }
-
-      const streamingContainerOrError = await streamingClientRef.current.start({
-        ...(config as {
-          streamId: string
-          config: GeforceStreamConfig
-          sessionId: string
-          projectId: string
-          worldId: string
-        }),
-        provider: StreamProvider.GeforceNow,
-        ...streamTarget,
+      session.events.on("streamStateUpdated", (event) => {
+        if (isCurrent()) {
+          setStreamState(event.detail.state)
+          setIds({ sessionId: session.sessionId, streamId: session.streamId })
+        }
       })
-
-      if (streamingContainerOrError instanceof StreamingClientError) {
-        if (config) {
-          await streamingClientRef.current.cleanup({
-            reason: streamingContainerOrError,
-            ...config,
-          })
+      session.events.on("sessionStateUpdated", (event) => {
+        if (isCurrent()) {
+          setSessionState(event.detail.state)
+          setQueuePosition(event.detail.queuePosition)
         }
-        throw streamingContainerOrError
-      }
+      })
+      session.done.then((result) => {
+        if (isCurrent() && result) {
+          setError(result)
+          params.onError?.(result)
+        }
+      })
     },
-    [projectId, worldId, stopStreaming],
+    [projectId, worldId, forceProvider, stopStreaming],
   )
 
+  const retry = useCallback(() => {
+    if (lastParamsRef.current) {
+      startStreaming(lastParamsRef.current)
+    }
+  }, [startStreaming])
+
+  const cancel = useCallback(() => {
+    const session = sessionRef.current
+    if (session && session.state.stream !== StreamState.Streaming) {
+      stopStreaming()
+    }
+  }, [stopStreaming])
+
   const getBrowserSupport = useCallback(() => {
     return streamingClientRef.current
       ? streamingClientRef.current.getBrowserSupport()
@@ -163,27 +148,25 @@ export function usePixelStreaming({
   }, [])
 
   useEffect(() => {
-    if (streamingClientRef.current && authToken) {
-      // We're already streaming, so set token directly to avoid re-init.
-      streamingClientRef.current.setAuthToken(authToken)
-    } else {
-      // Not streaming yet, so just set token.
-      setToken(authToken)
-    }
+    tokenRef.current = authToken
+    // Once the client has been created, the token is updated without re-creating it.
+    streamingClientRef.current?.setAuthToken(authToken)
   }, [authToken])
 
   useEffect(() => {
     if (!streamingClientRef.current) {
       streamingClientRef.current = new StreamingClient({
         ...clientOptions,
-        auth: { token, organizationId },
+        auth: { token: tokenRef.current, organizationId },
       })
     }
-  }, [organizationId, clientOptions, token])
+  }, [organizationId, clientOptions])
 
   useEffect(() => {
     return () => {
       stopStreaming()
+      // Releases the client's providers and timers, a new client is created if remounted.
+      streamingClientRef.current?.dispose()
       streamingClientRef.current = null
     }
   }, [stopStreaming])
@@ -191,8 +174,14 @@ export function usePixelStreaming({
   return {
     streamState,
     sessionState,
+    queuePosition,
+    error,
+    sessionId: ids.sessionId,
+    streamId: ids.streamId,
     startStreaming,
     stopStreaming,
+    retry,
+    cancel,
     getBrowserSupport,
   }
 }
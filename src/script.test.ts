@@ -0,0 +1,23 @@
+import { execSync } from "node:child_process"
+import { readFileSync } from "node:fs"
+import { runInNewContext } from "node:vm"
+
+describe("script build", () => {
+  it("should load without require", () => {
+    execSync("npm run --silent build:script", { stdio: "pipe" })
+    const bundle = readFileSync("dist/script/index.js", "utf8")
+    const context: { MSquaredPixelStreamingClient?: Record<string, unknown> } =
+      {}
+
+    // Throws if the bundle requires a module, such as react.
+    expect(() => runInNewContext(bundle, context)).not.toThrow()
+
+    expect(context.MSquaredPixelStreamingClient).toHaveProperty(
+      "definePixelStreamElement",
+      expect.any(Function),
+    )
+    expect(context.MSquaredPixelStreamingClient).not.toHaveProperty(
+      "PixelStream",
+    )
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * The entry point of the script build, which is loaded with a `<script>` tag
+ * and exposes the client as the `MSquaredPixelStreamingClient` global. React
+ * cannot be loaded that way, so the React bindings are left out.
+ *
+ * @module
+ */
+
+export * from "./client"
+export {
+  definePixelStreamElement,
+  PIXEL_STREAM_TAG_NAME,
+  PixelStreamElement,
+} from "./element"
+export { TerminationErrorCode } from "./gfn/types"
+export {
+  type LogContext,
+  type LogEntry,
+  LogLevel,
+  redact,
+} from "./logger"
+export type { SessionStateDetail } from "./progress"
+export type {
+  EmbeddedStartOptions,
+  StreamDiagnostic,
+  StreamProviderAdapter,
+  StreamProviderCallbacks,
+} from "./provider"
+export { StreamDiagnosticSeverity } from "./provider"
+export type {
+  GeforceStreamConfig,
+  StreamConfig,
+  UbitusStreamConfig,
+} from "./session"
+export { SessionState } from "./session"
+export type { Span, SpanAttributes, Tracer } from "./tracing"
@@ -0,0 +1,350 @@
+import errors from "./errors"
+import {
+  SessionAbortedError,
+  SessionAuthError,
+  SessionClient,
+  SessionDeletedError,
+  SessionErrorCategory,
+  SessionExpiredError,
+  SessionNetworkError,
+  SessionRequestError,
+  SessionState,
+  SessionTerminalStateError,
+} from "./session"
+import { mockLogger } from "./test-utils"
+import type { Tracer } from "./tracing"
+
+const metadata = {
+  browserName: "Chrome",
+  browserVersion: 120,
+  osName: "Mac OS",
+  deviceModel: "",
+  deviceType: "",
+  ubitusSupported: true,
+  geforceSupported: true,
+}
+
+const logger = mockLogger()
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+describe("SessionClient.createSession", () => {
+  it("should return an aborted error without making a request if already aborted", async () => {
+    const fetch = jest.fn()
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await client.createSession({
+      projectId: "project",
+      worldId: "world",
+      streamId: "stream",
+      sessionMetadata: metadata,
+      signal: controller.signal,
+    })
+
+    expect(result).toBeInstanceOf(SessionAbortedError)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it("should stop polling and delete the session when aborted while queued", async () => {
+    const controller = new AbortController()
+    const fetch = jest.fn(async (_: unknown, init?: RequestInit) => {
+      if (init?.method === "delete") {
+        return new Response(null, { status: 204 })
+      }
+      return jsonResponse({ sessionId: "session", state: SessionState.Queued })
+    })
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const error = await client.createSession({
+      projectId: "project",
+      worldId: "world",
+      streamId: "stream",
+      sessionMetadata: metadata,
+      signal: controller.signal,
+      onStateChange: (state) => {
+        if (state === SessionState.Queued) {
+          controller.abort("left the waiting room")
+        }
+      },
+    })
+
+    expect(error).toBeInstanceOf(SessionAbortedError)
+    expect((error as SessionAbortedError).cause).toBe("left the waiting room")
+
+    const methods = fetch.mock.calls.map(([, init]) => init?.method)
+    expect(methods).toEqual(["post", "delete"])
+  })
+})
+
+describe("SessionClient errors", () => {
+  const params = {
+    projectId: "project",
+    worldId: "world",
+    streamId: "stream",
+    sessionMetadata: metadata,
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it.each([
+    [401, SessionErrorCategory.Auth],
+    [403, SessionErrorCategory.Auth],
+    [404, SessionErrorCategory.NotFound],
+    [429, SessionErrorCategory.RateLimited],
+    [503, SessionErrorCategory.Server],
+    [400, SessionErrorCategory.BadRequest],
+  ])("should categorise a %d response as %s", async (status, category) => {
+    const fetch = jest.fn(async () => new Response("nope", { status }))
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const error = errors.as(
+      await client.createSession(params),
+      SessionRequestError,
+    )
+
+    expect(error?.category).toBe(category)
+    expect(error?.status).toBe(status)
+    expect(error?.body).toBe("nope")
+    expect(error?.path).toBe("/api/sessions")
+  })
+
+  it("should return a typed error for auth failures", async () => {
+    const fetch = jest.fn(async () => new Response(null, { status: 401 }))
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const result = await client.createSession(params)
+
+    expect(errors.is(result, SessionAuthError)).toBe(true)
+  })
+
+  it("should return a network error when the request cannot be made", async () => {
+    const cause = new TypeError("Failed to fetch")
+    const fetch = jest.fn(async () => {
+      throw cause
+    })
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const result = await client.deleteSession({ ...params, sessionId: "s" })
+
+    expect(result).toBeInstanceOf(SessionNetworkError)
+    expect(result?.cause).toBe(cause)
+  })
+
+  it("should return a terminal state error when polling ends in a terminal state", async () => {
+    const fetch = jest.fn(async (_: unknown, init?: RequestInit) =>
+      init?.body
+        ? jsonResponse({ sessionId: "s", state: SessionState.Queued })
+        : jsonResponse({ sessionId: "s", state: SessionState.Expired }),
+    )
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const result = await client.createSession(params)
+
+    expect(result).toBeInstanceOf(SessionExpiredError)
+    expect((result as SessionTerminalStateError).state).toBe(
+      SessionState.Expired,
+    )
+  })
+
+  it("should report every state transition until the session is deleted", async () => {
+    const states = [
+      SessionState.Queued,
+      SessionState.Admitted,
+      SessionState.Admitted,
+      SessionState.Deleted,
+    ]
+    const fetch = jest.fn(async () =>
+      jsonResponse({ sessionId: "s", state: states.shift() }),
+    )
+    const onStateChange = jest.fn()
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const result = client.createSession({ ...params, onStateChange })
+    await jest.runAllTimersAsync()
+
+    expect(await result).toBeInstanceOf(SessionDeletedError)
+    expect(onStateChange.mock.calls).toEqual([
+      [SessionState.Queued],
+      [SessionState.Admitted],
+      [SessionState.Deleted],
+    ])
+  })
+})
+
+describe("SessionClient.watchSession", () => {
+  it("should keep refreshing through transient errors until the session ends", async () => {
+    const responses = [
+      () => jsonResponse({ sessionId: "s", state: SessionState.Active }),
+      () => new Response(null, { status: 503 }),
+      () => jsonResponse({ sessionId: "s", state: SessionState.Replaced }),
+    ]
+    const fetch = jest.fn(async () => {
+      const next = responses.shift()
+      if (!next) {
+        throw new Error("unexpected request")
+      }
+      return next()
+    })
+    const onUpdate = jest.fn()
+    const client = new SessionClient({ host: "example.com", fetch, logger })
+
+    const result = await client.watchSession({
+      projectId: "project",
+      worldId: "world",
+      sessionId: "s",
+      intervalMillis: 1,
+      onUpdate,
+    })
+
+    expect(result).toBeInstanceOf(SessionTerminalStateError)
+    expect((result as SessionTerminalStateError).state).toBe(
+      SessionState.Replaced,
+    )
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(onUpdate).toHaveBeenCalledTimes(2)
+  })
+
+  it("should keep refreshing when a refresh is rejected", async () => {
+    const responses = [
+      () => new Response(null, { status: 401 }),
+      () => new Response(null, { status: 404 }),
+      () => jsonResponse({ sessionId: "s", state: SessionState.Expired }),
+    ]
+    const fetch = jest.fn(async () => {
+      const next = responses.shift()
+      if (!next) {
+        throw new Error("unexpected request")
+      }
+      return next()
+    })
+    const onTokenExpired = jest.fn()
+    const client = new SessionClient({
+      host: "example.com",
+      fetch,
+      logger,
+      onTokenExpired,
+    })
+
+    const result = await client.watchSession({
+      projectId: "project",
+      worldId: "world",
+      sessionId: "s",
+      intervalMillis: 1,
+    })
+
+    expect(result).toBeInstanceOf(SessionTerminalStateError)
+    expect((result as SessionTerminalStateError).state).toBe(
+      SessionState.Expired,
+    )
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(onTokenExpired).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("SessionClient authentication", () => {
+  const params = { projectId: "project", worldId: "world", sessionId: "s" }
+
+  it("should refresh the token and retry once when a request is rejected with a 401", async () => {
+    const tokens = ["expired", "fresh"]
+    const token = jest.fn(() => tokens.shift() ?? "unexpected")
+    const fetch = jest.fn(async (_: unknown, init?: RequestInit) =>
+      new Headers(init?.headers).get("Authorization") === "Bearer fresh"
+        ? new Response(null, { status: 204 })
+        : new Response(null, { status: 401 }),
+    )
+    const onTokenExpired = jest.fn()
+    const client = new SessionClient({
+      host: "example.com",
+      fetch,
+      logger,
+      token,
+      onTokenExpired,
+    })
+
+    const result = await client.deleteSession(params)
+
+    expect(result).toBeUndefined()
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(onTokenExpired).not.toHaveBeenCalled()
+  })
+
+  it("should report an expired token when it cannot be refreshed", async () => {
+    const fetch = jest.fn(async () => new Response(null, { status: 401 }))
+    const onTokenExpired = jest.fn()
+    const client = new SessionClient({
+      host: "example.com",
+      fetch,
+      logger,
+      token: "expired",
+      onTokenExpired,
+    })
+
+    const result = await client.deleteSession(params)
+
+    expect(result).toBeInstanceOf(SessionAuthError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(onTokenExpired).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("SessionClient tracing", () => {
+  it("should trace requests as children of the session operation and propagate the trace header", async () => {
+    const spans: { name: string; parent?: string; ended: boolean }[] = []
+    const tracer: Tracer = {
+      startSpan(name, { parent }) {
+        const record = {
+          name,
+          parent: (parent as { name?: string } | undefined)?.name,
+          ended: false,
+        }
+        spans.push(record)
+        return {
+          name,
+          setAttributes: jest.fn(),
+          recordError: jest.fn(),
+          end: () => {
+            record.ended = true
+          },
+          propagationHeaders: () => ({ traceparent: `trace-${name}` }),
+        }
+      },
+    }
+    const fetch = jest.fn(async () =>
+      jsonResponse({ sessionId: "session", state: SessionState.Active }),
+    )
+    const client = new SessionClient({
+      host: "example.com",
+      fetch,
+      logger,
+      tracer,
+    })
+
+    await client.createSession({
+      projectId: "project",
+      streamId: "stream",
+      sessionMetadata: metadata,
+    })
+
+    expect(spans).toEqual([
+      { name: "session.create", parent: undefined, ended: true },
+      { name: "session.request", parent: "session.create", ended: true },
+    ])
+    const [, init] = fetch.mock.calls[0] as unknown as [URL, RequestInit]
+    expect(new Headers(init.headers).get("traceparent")).toBe(
+      "trace-session.request",
+    )
+  })
+})
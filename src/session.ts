@@ -3,14 +3,18 @@
  *
  * The `sessionManager.clientFetch` code has been minimally reimplemeted in the
  * `doFetch` method and any of it's required external data is passed into the
- * SessionClient constructor. It has significantly less robust error handling,
- * however as the usage code just returns `undefined` on any error, we don't
- * need the all of that functionaily _yet_.
+ * SessionClient constructor. Failed requests are returned as a
+ * {@link SessionRequestError}, categorised so that callers can tell an expired
+ * login apart from the servers being full.
  *
  * @module
  */
 
 import type { StreamProvider } from "./client"
+import errors from "./errors"
+import { withLogContext } from "./logger"
+import { TokenCache } from "./token"
+import { noopTracer, type Span, type Tracer, withSpan } from "./tracing"
 import type { Fetch, Logger, Token } from "./types"
 
 const SESSION_POLL_INTERVAL_MILLIS = 5000
@@ -87,10 +91,154 @@ export type UbitusStreamConfig = {
 
 export type StreamConfig = GeforceStreamConfig | UbitusStreamConfig
 
+/**
+ * Base error class for errors returned from the SessionClient
+ */
+export class SessionClientError extends Error {
+  override readonly name: string = "SessionClientError"
+}
+
+/**
+ * Error produced when a session request is cancelled via an {@link AbortSignal}.
+ * The abort reason is available as the `cause`.
+ */
+export class SessionAbortedError extends SessionClientError {
+  override readonly name: string = "SessionAbortedError"
+}
+
+/**
+ * The category of a {@link SessionRequestError}.
+ */
+export enum SessionErrorCategory {
+  /** The request was not authenticated or not authorized, the user may need to log in again */
+  Auth = "auth",
+  /** The session, project or world could not be found */
+  NotFound = "not-found",
+  /** Too many requests have been made, or there is no capacity for new sessions */
+  RateLimited = "rate-limited",
+  /** The server failed to handle the request */
+  Server = "server",
+  /** The request could not be made, for example because the user is offline */
+  Network = "network",
+  /** The session ended up in a terminal state such as `EXPIRED` */
+  TerminalState = "terminal-state",
+  /** The request was rejected for any other reason */
+  BadRequest = "bad-request",
+}
+
+/**
+ * Error produced when a request to the sessions API fails.
+ */
+export class SessionRequestError extends SessionClientError {
+  override readonly name: string = "SessionRequestError"
+  readonly category: SessionErrorCategory = SessionErrorCategory.BadRequest
+  /** The path of the failed request */
+  readonly path: string
+  /** The HTTP status of the response, if one was received */
+  readonly status?: number
+  /** The body of the response, if one was received */
+  readonly body?: string
+
+  constructor(
+    message: string,
+    details: { path: string; status?: number; body?: string },
+    opts?: ErrorOptions,
+  ) {
+    super(message, opts)
+    this.path = details.path
+    this.status = details.status
+    this.body = details.body
+  }
+}
+
+/** Error produced when a session request is rejected with a 401 or 403 */
+export class SessionAuthError extends SessionRequestError {
+  override readonly name: string = "SessionAuthError"
+  override readonly category = SessionErrorCategory.Auth
+}
+
+/** Error produced when a session request is rejected with a 404 */
+export class SessionNotFoundError extends SessionRequestError {
+  override readonly name: string = "SessionNotFoundError"
+  override readonly category = SessionErrorCategory.NotFound
+}
+
+/** Error produced when a session request is rejected with a 429 */
+export class SessionRateLimitedError extends SessionRequestError {
+  override readonly name: string = "SessionRateLimitedError"
+  override readonly category = SessionErrorCategory.RateLimited
+}
+
+/** Error produced when a session request fails with a 5xx */
+export class SessionServerError extends SessionRequestError {
+  override readonly name: string = "SessionServerError"
+  override readonly category = SessionErrorCategory.Server
+}
+
+/** Error produced when a session request could not be made, the underlying error is available as the `cause` */
+export class SessionNetworkError extends SessionRequestError {
+  override readonly name: string = "SessionNetworkError"
+  override readonly category = SessionErrorCategory.Network
+}
+
+/** Error produced when a session reaches a terminal state while waiting for it to become active */
+export class SessionTerminalStateError extends SessionRequestError {
+  override readonly name: string = "SessionTerminalStateError"
+  override readonly category = SessionErrorCategory.TerminalState
+
+  constructor(
+    public readonly state: string,
+    details: { path: string },
+    opts?: ErrorOptions,
+  ) {
+    super(`session reached terminal state ${state}`, details, opts)
+  }
+}
+
+/** Error produced when a session has been replaced by a newer session for the same user */
+export class SessionReplacedError extends SessionTerminalStateError {
+  override readonly name: string = "SessionReplacedError"
+
+  constructor(details: { path: string }, opts?: ErrorOptions) {
+    super(SessionState.Replaced, details, opts)
+  }
+}
+
+/** Error produced when a session has expired */
+export class SessionExpiredError extends SessionTerminalStateError {
+  override readonly name: string = "SessionExpiredError"
+
+  constructor(details: { path: string }, opts?: ErrorOptions) {
+    super(SessionState.Expired, details, opts)
+  }
+}
+
+/** Error produced when a session has failed unrecoverably */
+export class SessionFailedError extends SessionTerminalStateError {
+  override readonly name: string = "SessionFailedError"
+
+  constructor(details: { path: string }, opts?: ErrorOptions) {
+    super(SessionState.Failed, details, opts)
+  }
+}
+
+/** Error produced when a session has been deleted, either by the user or an operator */
+export class SessionDeletedError extends SessionTerminalStateError {
+  override readonly name: string = "SessionDeletedError"
+
+  constructor(details: { path: string }, opts?: ErrorOptions) {
+    super(SessionState.Deleted, details, opts)
+  }
+}
+
 export type Session = {
   sessionId: string
   state: string
   providerConfig?: StreamConfig
+  /** The position of the session in the queue, while queued */
+  queuePosition?: number
+  /** The backend's estimate of the time until the session is ready, while queued */
+  estimatedWaitSeconds?: number
 }
 
 export type FetchSessionConfigParameters = {
@@ -99,6 +247,10 @@ export type FetchSessionConfigParameters = {
   sessionMetadata: PostSessionRequest["metadata"]
   worldId?: string
   onStateChange?: (state: SessionState) => void
+  onUpdate?: (session: Session) => void
+  signal?: AbortSignal
+  /** The span of the operation creating the session is part of */
+  parent?: Span
 }
 
 export type SessionClientOptions = {
@@ -108,20 +260,28 @@ export type SessionClientOptions = {
   protocol?: "http" | "https"
   token?: Token
   logger?: Logger
+  /** Called when a request is rejected with a 401 and a new token cannot be obtained */
+  onTokenExpired?: () => void
+  /** Tracer used to trace requests and session operations */
+  tracer?: Tracer
 }
 
 export class SessionClient {
   private organizationId?: string
-  private token?: Token
+  private tokens: TokenCache
+  private onTokenExpired?: () => void
   private fetch: Fetch
   private logger: Logger
+  private tracer: Tracer
   private baseURL?: string
 
   constructor(opts: SessionClientOptions) {
     this.organizationId = opts.organizationId
     this.fetch = opts.fetch ?? globalThis.fetch.bind(globalThis)
-    this.token = opts.token
+    this.tokens = new TokenCache(opts.token)
+    this.onTokenExpired = opts.onTokenExpired
     this.logger = opts.logger ?? console
+    this.tracer = opts.tracer ?? noopTracer
     this.baseURL = opts.host
       ? `${opts.protocol ?? "https"}://${opts.host}`
       : undefined
@@ -133,7 +293,7 @@ export class SessionClient {
    * @param token A string token or a function that returns a string or a Promise resolving to a string.
    */
   public setAuthToken(token: Token): void {
-    this.token = token
+    this.tokens.set(token)
   }
 
   /**
@@ -143,41 +303,71 @@ export class SessionClient {
    *  @param projectId The Project ID for the current project.
    *  @param worldId The World ID for the current session.
    *  @param sessionId The Session ID for the current session.
+   *  @param signal An optional signal used to cancel the request.
+   *  @param parent The span of the operation the refresh is part of.
    *
-   *  @return The refreshed Session object, or undefined if the session could not be refreshed.
+   *  @return The refreshed Session object, a {@link SessionAbortedError} if the request was aborted, or a
+   *  {@link SessionRequestError} if the session could not be refreshed.
    */
   private async refreshSession({
     projectId,
     worldId,
     sessionId,
+    signal,
+    parent,
   }: {
     projectId: string
     worldId: string
     sessionId: string
-  }): Promise<Session | undefined> {
+    signal?: AbortSignal
+    parent?: Span
+  }): Promise<Session | SessionAbortedError | SessionRequestError> {
+    const path = `/api/sessions/${sessionId}`
+    const logger = withLogContext(this.logger, {
+      projectId,
+      worldId,
+      sessionId,
+    })
     const headers = new Headers({
       [HttpHeader.ProjectId]: projectId,
       [HttpHeader.WorldId]: worldId,
     })
 
     try {
-      const response = await this.doFetch(`/api/sessions/${sessionId}`, {
-        method: "post",
-        headers,
-      })
+      const response = await this.doFetch(
+        path,
+        {
+          method: "post",
+          headers,
+          signal,
+        },
+        parent,
+      )
 
       if (!response.ok) {
-        this.logger.error("Failed to refresh session:", {
-          body: await response.text(),
-          status: response.status,
+        const error = await responseError(
+          "failed to refresh session",
+          path,
+          response,
+        )
+        logger.error("Failed to refresh session:", {
+          body: error.body,
+          status: error.status,
         })
-        return
+        return error
       }
 
       return await (response.json() as Promise<Session>)
     } catch (error) {
-      this.logger.error("Failed to make refresh session request:", { error })
-      return
+      if (signal?.aborted) {
+        return abortedError(signal)
+      }
+      logger.error("Failed to make refresh session request:", { error })
+      return new SessionNetworkError(
+        "failed to make refresh session request",
+        { path },
+        { cause: error },
+      )
     }
   }
 
@@ -187,51 +377,151 @@ export class SessionClient {
    *  @param projectId The Project ID for the current project.
    *  @param worldId The World ID for the current session.
    *  @param sessionId The Session ID for the current session.
-   *  @param onStateChange An optional callback that will be provided with session state values.
+   *  @param state The last known state of the session.
+   *  @param onStateChange An optional callback that will be called whenever the session state changes.
+   *  @param onUpdate An optional callback that will be provided with every refreshed Session.
+   *  @param signal An optional signal used to stop polling.
+   *  @param parent The span of the operation polling is part of.
    *
-   *  @return The Session object, or undefined if the session could not be created.
+   *  @return The Session object, a {@link SessionAbortedError} if polling was aborted, a
+   *  {@link SessionTerminalStateError} if the session reached a terminal state, or another {@link SessionRequestError}
+   *  if the session could not be refreshed.
    */
-  private async pollSession(
-    projectId: string,
-    worldId: string,
-    sessionId: string,
-    onStateChange?: (state: SessionState) => void,
-  ): Promise<Session | undefined> {
-    let session: Session | undefined
-
-    while (
-      !session ||
-      session.state === SessionState.Queued ||
-      session.state === SessionState.Admitted ||
-      session.state === SessionState.Pending ||
-      session.state === SessionState.Ready
-    ) {
-      session = await this.refreshSession({
+  private async pollSession({
+    projectId,
+    worldId,
+    sessionId,
+    state,
+    onStateChange,
+    onUpdate,
+    signal,
+    parent,
+  }: {
+    projectId: string
+    worldId: string
+    sessionId: string
+    state: string
+    onStateChange?: (state: SessionState) => void
+    onUpdate?: (session: Session) => void
+    signal?: AbortSignal
+    parent?: Span
+  }): Promise<Session | SessionAbortedError | SessionRequestError> {
+    const path = `/api/sessions/${sessionId}`
+
+    return withSpan(
+      this.tracer,
+      "session.poll",
+      {
+        attributes: {
+          "m2.project_id": projectId,
+          "m2.world_id": worldId,
+          "m2.session_id": sessionId,
+          "m2.session_state": state,
+        },
+        parent,
+      },
+      async (span) => {
+        for (;;) {
+          if (signal?.aborted) {
+            return abortedError(signal)
+          }
+
+          const session = await this.refreshSession({
+            projectId,
+            worldId,
+            sessionId,
+            signal,
+            parent: span,
+          })
+
+          if (errors.is(session)) {
+            // Failed to refresh session or polling was aborted.
+            return session
+          }
+          onUpdate?.(session)
+
+          if (session.state !== state) {
+            state = session.state
+            span.setAttributes({ "m2.session_state": state })
+            onStateChange?.(session.state as SessionState)
+          }
+
+          if (session.state === SessionState.Active) {
+            // Session is now ready!
+            return session
+          }
+
+          if (!isWaitingState(session.state)) {
+            return terminalStateError(session.state, { path })
+          }
+
+          await sleep(SESSION_POLL_INTERVAL_MILLIS, signal)
+        }
+      },
+    )
+  }
+
+  /**
+   *  Refreshes an active Session at a regular interval until it ends, keeping it alive and detecting when it has
+   *  been replaced, expired, failed or deleted. Failed refreshes are logged and the session is refreshed again at the
+   *  next interval, e.g. a rejected token may be replaced with {@link SessionClient.setAuthToken} in the meantime.
+   *
+   *  @param projectId The Project ID for the current project.
+   *  @param worldId The World ID for the current session.
+   *  @param sessionId The Session ID for the current session.
+   *  @param intervalMillis How often to refresh the session.
+   *  @param onUpdate An optional callback that will be provided with every refreshed Session.
+   *  @param signal An optional signal used to stop watching.
+   *
+   *  @return A {@link SessionAbortedError} once watching is stopped, or a {@link SessionTerminalStateError} once the
+   *  session ended.
+   */
+  async watchSession({
+    projectId,
+    worldId,
+    sessionId,
+    intervalMillis,
+    onUpdate,
+    signal,
+  }: {
+    projectId: string
+    worldId: string
+    sessionId: string
+    intervalMillis: number
+    onUpdate?: (session: Session) => void
+    signal?: AbortSignal
+  }): Promise<SessionAbortedError | SessionTerminalStateError> {
+    const path = `/api/sessions/${sessionId}`
+
+    for (;;) {
+      await sleep(intervalMillis, signal)
+      if (signal?.aborted) {
+        return abortedError(signal)
+      }
+
+      const session = await this.refreshSession({
         projectId,
         worldId,
         sessionId,
+        signal,
       })
 
-      if (!session) {
-        // Failed to refresh session.
-        return
-      }
-
-      if (session.state === SessionState.Active) {
-        if (onStateChange) {
-          onStateChange(session.state)
+      if (errors.is(session)) {
+        if (errors.is(session, SessionAbortedError)) {
+          return session
         }
-
-        // Session is now ready!
-        return session
+        // The session may still be running, try again at the next interval.
+        continue
       }
+      onUpdate?.(session)
 
-      await new Promise((res) =>
-        globalThis.setTimeout(res, SESSION_POLL_INTERVAL_MILLIS),
-      )
+      if (
+        session.state !== SessionState.Active &&
+        !isWaitingState(session.state)
+      ) {
+        return terminalStateError(session.state, { path })
+      }
     }
-
-    return session
   }
 
   /**
@@ -242,9 +532,15 @@ export class SessionClient {
    *  @param streamId The Stream ID for the current session.
    *  @param sessionMetadata The metadata for the current session.
    *  @param worldId The optional World ID for the current session.
-   *  @param onStateChange An optional callback that will be provided with session state values.
+   *  @param onStateChange An optional callback that will be called with the initial session state and whenever it changes.
+   *  @param onUpdate An optional callback that will be provided with the created Session and every refreshed Session.
+   *  @param signal An optional signal used to cancel the request. If the session has already been created when the
+   *  signal is aborted, it is deleted.
+   *  @param parent The span of the operation creating the session is part of.
    *
-   *  @return The Session object, or undefined if the session could not be created.
+   *  @return The Session object, a {@link SessionAbortedError} if the request was aborted, a
+   *  {@link SessionTerminalStateError} if the session reached a terminal state before becoming active, or another
+   *  {@link SessionRequestError} if the session could not be created.
    */
   async createSession({
     projectId,
@@ -252,58 +548,128 @@ export class SessionClient {
     sessionMetadata,
     worldId,
     onStateChange,
-  }: FetchSessionConfigParameters): Promise<Session | undefined> {
-    const headers = new Headers({
-      [HttpHeader.ProjectId]: projectId,
-      [HttpHeader.WorldId]: worldId ?? "",
-      "Content-Type": "application/json",
-    })
-
-    try {
-      const response = await this.doFetch("/api/sessions", {
-        method: "post",
-        headers,
-        body: JSON.stringify({
-          streamId,
-          metadata: sessionMetadata,
-        }),
-      })
-
-      if (!response.ok) {
-        this.logger.error("Failed to fetch session config:", {
-          body: await response.text(),
-          status: response.status,
-        })
-        return
-      }
-
-      const session: Session = (await response.json()) as PostSessionResponse
-      if (
-        worldId &&
-        (session.state === SessionState.Queued ||
-          session.state === SessionState.Ready)
-      ) {
-        if (onStateChange) {
-          onStateChange(session.state)
+    onUpdate,
+    signal,
+    parent,
+  }: FetchSessionConfigParameters): Promise<
+    Session | SessionAbortedError | SessionRequestError
+  > {
+    return withSpan(
+      this.tracer,
+      "session.create",
+      {
+        attributes: {
+          "m2.project_id": projectId,
+          "m2.world_id": worldId,
+          "m2.stream_id": streamId,
+        },
+        parent,
+      },
+      async (span) => {
+        if (signal?.aborted) {
+          return abortedError(signal)
         }
 
-        // This is a World-scoped session, and needs to be polled at least once to receive the streaming
-        // configuration.
-        return await this.pollSession(
+        const path = "/api/sessions"
+        const logger = withLogContext(this.logger, {
           projectId,
           worldId,
-          session.sessionId,
-          onStateChange,
-        )
-      }
+          streamId,
+        })
+        const headers = new Headers({
+          [HttpHeader.ProjectId]: projectId,
+          [HttpHeader.WorldId]: worldId ?? "",
+          "Content-Type": "application/json",
+        })
 
-      return session
-    } catch (error) {
-      this.logger.error("Failed to make fetch session config request:", {
-        error,
-      })
-      return
-    }
+        try {
+          const response = await this.doFetch(
+            path,
+            {
+              method: "post",
+              headers,
+              body: JSON.stringify({
+                streamId,
+                metadata: sessionMetadata,
+              }),
+              signal,
+            },
+            span,
+          )
+
+          if (!response.ok) {
+            const error = await responseError(
+              "failed to fetch session config",
+              path,
+              response,
+            )
+            logger.error("Failed to fetch session config:", {
+              body: error.body,
+              status: error.status,
+            })
+            return error
+          }
+
+          const session: Session =
+            (await response.json()) as PostSessionResponse
+          span.setAttributes({
+            "m2.session_id": session.sessionId,
+            "m2.session_state": session.state,
+          })
+          onUpdate?.(session)
+          onStateChange?.(session.state as SessionState)
+
+          if (
+            session.state !== SessionState.Active &&
+            !isWaitingState(session.state)
+          ) {
+            return terminalStateError(session.state, { path })
+          }
+
+          if (worldId && isWaitingState(session.state)) {
+            // This is a World-scoped session, and needs to be polled at least once to receive the streaming
+            // configuration.
+            const result = await this.pollSession({
+              projectId,
+              worldId,
+              sessionId: session.sessionId,
+              state: session.state,
+              onStateChange,
+              onUpdate,
+              signal,
+              parent: span,
+            })
+
+            if (errors.is(result, SessionAbortedError)) {
+              // Don't leave the half-created session waiting in the queue.
+              await this.deleteSession({
+                projectId,
+                worldId,
+                sessionId: session.sessionId,
+                deletionReason: result.message,
+                parent: span,
+              })
+            }
+
+            return result
+          }
+
+          return session
+        } catch (error) {
+          if (signal?.aborted) {
+            return abortedError(signal)
+          }
+          logger.error("Failed to make fetch session config request:", {
+            error,
+          })
+          return new SessionNetworkError(
+            "failed to make fetch session config request",
+            { path },
+            { cause: error },
+          )
+        }
+      },
+    )
   }
 
   /**
@@ -313,49 +679,143 @@ export class SessionClient {
    *  @param worldId The World ID for the current session.
    *  @param sessionId The Session ID for the current session.
    *  @param deletionReason An optional reason for the deletion, for example an error code from the streaming provider.
+   *  @param parent The span of the operation the deletion is part of.
    *
-   *  @return Undefined on success.
+   *  @return Undefined on success, or a {@link SessionRequestError} if the session could not be deleted.
    */
   async deleteSession({
     projectId,
     worldId,
     sessionId,
     deletionReason,
+    parent,
   }: {
     projectId: string
     worldId: string
     sessionId: string
     deletionReason?: string
-  }): Promise<undefined> {
-    const headers = new Headers({
-      [HttpHeader.ProjectId]: projectId,
-      [HttpHeader.WorldId]: worldId,
-    })
+    parent?: Span
+  }): Promise<undefined | SessionRequestError> {
+    return withSpan(
+      this.tracer,
+      "session.delete",
+      {
+        attributes: {
+          "m2.project_id": projectId,
+          "m2.world_id": worldId,
+          "m2.session_id": sessionId,
+        },
+        parent,
+      },
+      async (span) => {
+        const path = `/api/sessions/${sessionId}`
+        const logger = withLogContext(this.logger, {
+          projectId,
+          worldId,
+          sessionId,
+        })
+        const headers = new Headers({
+          [HttpHeader.ProjectId]: projectId,
+          [HttpHeader.WorldId]: worldId,
+        })
 
-    try {
-      const response = await this.doFetch(`/api/sessions/${sessionId}`, {
-        method: "delete",
-        headers,
-        body: JSON.stringify({
-          deletionReason,
-        }),
+        try {
+          const response = await this.doFetch(
+            path,
+            {
+              method: "delete",
+              headers,
+              body: JSON.stringify({
+                deletionReason,
+              }),
+            },
+            span,
+          )
+          if (!response.ok) {
+            const error = await responseError(
+              "failed to delete session",
+              path,
+              response,
+            )
+            logger.error("Failed to delete session:", {
+              body: error.body,
+              status: error.status,
+            })
+            return error
+          }
+        } catch (error) {
+          logger.error("Failed to make delete session request:", { error })
+          return new SessionNetworkError(
+            "failed to make delete session request",
+            { path },
+            { cause: error },
+          )
+        }
+      },
+    )
+  }
+
+  /**
+   *  Makes an authenticated request. If the request is rejected with a 401, the token is refreshed and the request is
+   *  retried once. If the token cannot be refreshed, or the retry is also rejected, `onTokenExpired` is called.
+   */
+  private async doFetch(
+    input: RequestInfo | string | URL,
+    init?: RequestInit,
+    parent?: Span,
+  ): Promise<Response> {
+    return withSpan(
+      this.tracer,
+      "session.request",
+      {
+        attributes: {
+          "http.request.method": (init?.method ?? "get").toUpperCase(),
+          "url.path": typeof input === "string" ? input : undefined,
+        },
+        parent,
+      },
+      async (span) => {
+        const response = await this.doFetchWithRetry(input, init, span)
+        span.setAttributes({ "http.response.status_code": response.status })
+        return response
+      },
+    )
+  }
+
+  private async doFetchWithRetry(
+    input: RequestInfo | string | URL,
+    init: RequestInit | undefined,
+    span: Span,
+  ): Promise<Response> {
+    const response = await this.doFetchWithToken(input, init, { span })
+    if (
+      response.status !== 401 ||
+      new Headers(init?.headers).has("Authorization")
+    ) {
+      return response
+    }
+
+    if (this.tokens.canRefresh()) {
+      span.setAttributes({ "m2.token_refreshed": true })
+      const retried = await this.doFetchWithToken(input, init, {
+        refresh: true,
+        span,
       })
-      if (!response.ok) {
-        this.logger.error("Failed to delete session:", {
-          body: await response.text(),
-          status: response.status,
-        })
-        return
+      if (retried.status !== 401) {
+        return retried
       }
-    } catch (error) {
-      this.logger.error("Failed to make refresh session request:", { error })
-      return
+      this.onTokenExpired?.()
+      return retried
     }
+
+    this.onTokenExpired?.()
+    return response
   }
 
-  private async doFetch(
+  private async doFetchWithToken(
     input: RequestInfo | string | URL,
     init?: RequestInit,
+    { refresh = false, span }: { refresh?: boolean; span?: Span } = {},
   ): Promise<Response> {
     const url =
       typeof input === "string" && this.baseURL
@@ -364,16 +824,114 @@ export class SessionClient {
 
     const headers = new Headers(init?.headers)
 
-    if (!headers.has("Authorization") && this.token) {
-      const token =
-        typeof this.token === "function" ? await this.token() : this.token
-      headers.set("Authorization", `Bearer ${token}`)
+    if (!headers.has("Authorization")) {
+      const token = await this.tokens.get({ refresh })
+      if (token) {
+        headers.set("Authorization", `Bearer ${token}`)
+      }
     }
 
     if (!headers.has(HttpHeader.OrganizationId) && this.organizationId) {
       headers.set(HttpHeader.OrganizationId, this.organizationId)
     }
 
+    // Propagate the trace context so backend traces join up with this request.
+    for (const [name, value] of Object.entries(
+      span?.propagationHeaders?.() ?? {},
+    )) {
+      headers.set(name, value)
+    }
+
     return this.fetch(url, { ...init, headers })
   }
 }
+
+/**
+ * Builds the {@link SessionRequestError} matching the status of a failed response.
+ */
+async function responseError(
+  message: string,
+  path: string,
+  response: Response,
+): Promise<SessionRequestError> {
+  const details = {
+    path,
+    status: response.status,
+    body: await response.text().catch(() => undefined),
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return new SessionAuthError(message, details)
+  }
+  if (response.status === 404) {
+    return new SessionNotFoundError(message, details)
+  }
+  if (response.status === 429) {
+    return new SessionRateLimitedError(message, details)
+  }
+  if (response.status >= 500) {
+    return new SessionServerError(message, details)
+  }
+  return new SessionRequestError(message, details)
+}
+
+/**
+ * Builds the {@link SessionTerminalStateError} matching the terminal state of a session.
+ */
+function terminalStateError(
+  state: string,
+  details: { path: string },
+): SessionTerminalStateError {
+  switch (state) {
+    case SessionState.Replaced:
+      return new SessionReplacedError(details)
+    case SessionState.Expired:
+      return new SessionExpiredError(details)
+    case SessionState.Failed:
+      return new SessionFailedError(details)
+    case SessionState.Deleted:
+      return new SessionDeletedError(details)
+    default:
+      return new SessionTerminalStateError(state, details)
+  }
+}
+
+/**
+ * Whether the session is still waiting to become active.
+ */
+function isWaitingState(state: string) {
+  return (
+    state === SessionState.Queued ||
+    state === SessionState.Admitted ||
+    state === SessionState.Pending ||
+    state === SessionState.Ready
+  )
+}
+
+function abortedError(signal: AbortSignal) {
+  return new SessionAbortedError("session request aborted", {
+    cause: signal.reason,
+  })
+}
+
+/**
+ * Waits for the given time, resolving early if the signal is aborted.
+ */
+function sleep(millis: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+
+    const onAbort = () => {
+      globalThis.clearTimeout(timeout)
+      resolve()
+    }
+    const timeout = globalThis.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, millis)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
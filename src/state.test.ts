@@ -0,0 +1,50 @@
+import { SessionState } from "./session"
+import { StreamState, StreamStateMachine } from "./state"
+
+describe("StreamStateMachine", () => {
+  it("should follow a stream through its lifecycle", () => {
+    const machine = new StreamStateMachine()
+
+    expect(machine.transitionStream(StreamState.Loading)).toBe(true)
+    expect(machine.transitionStream(StreamState.Streaming)).toBe(true)
+    expect(machine.transitionStream(StreamState.Terminated)).toBe(true)
+    expect(machine.getState()).toEqual({ stream: StreamState.Terminated })
+  })
+
+  it("should reject duplicate and invalid transitions", () => {
+    const machine = new StreamStateMachine()
+
+    expect(machine.transitionStream(StreamState.Streaming)).toBe(false)
+    machine.transitionStream(StreamState.Loading)
+    machine.transitionStream(StreamState.Terminated)
+    expect(machine.transitionStream(StreamState.Terminated)).toBe(false)
+    expect(machine.transitionStream(StreamState.Streaming)).toBe(false)
+    expect(machine.getState().stream).toBe(StreamState.Terminated)
+  })
+
+  it("should keep a session in its terminal state until it is reset", () => {
+    const machine = new StreamStateMachine()
+
+    expect(machine.updateSession(SessionState.Queued)).toBe(true)
+    expect(machine.updateSession(SessionState.Queued)).toBe(true)
+    expect(machine.updateSession(SessionState.Expired)).toBe(true)
+    expect(machine.updateSession(SessionState.Deleted)).toBe(false)
+    expect(machine.getState().session).toBe(SessionState.Expired)
+
+    machine.resetSession()
+    expect(machine.updateSession(SessionState.Queued)).toBe(true)
+  })
+
+  it("should notify subscribers of changes until unsubscribed", () => {
+    const machine = new StreamStateMachine()
+    const listener = jest.fn()
+    const unsubscribe = machine.subscribe(listener)
+
+    machine.transitionStream(StreamState.Loading)
+    unsubscribe()
+    machine.transitionStream(StreamState.Streaming)
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({ stream: StreamState.Loading })
+  })
+})
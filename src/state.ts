@@ -0,0 +1,144 @@
+/**
+ * The state machine for the stream and its session.
+ *
+ * Every state update goes through the machine, which rejects transitions that
+ * are not valid from the current state. In particular a stream cannot
+ * terminate twice, and a session that has reached a terminal state stays in
+ * it, so duplicate terminal events are dropped.
+ *
+ * @module
+ */
+
+import { SessionState } from "./session"
+
+/**
+ * Possible states for the stream.
+ */
+export enum StreamState {
+  /** Initial state, no stream active. */
+  Idle = 0,
+  /** Stream is being initialized and connection is being established */
+  Loading = 1,
+  /** Streaming is active and running */
+  Streaming = 2,
+  /** Stream has terminated, possibly in error */
+  Terminated = 3,
+  /** Stream is in an indeterminate state */
+  Unknown = 4,
+  /** Stream terminated with a recoverable error and is being reconnected */
+  Reconnecting = 5,
+}
+
+const ALL_STREAM_STATES = [
+  StreamState.Idle,
+  StreamState.Loading,
+  StreamState.Streaming,
+  StreamState.Terminated,
+  StreamState.Unknown,
+  StreamState.Reconnecting,
+]
+
+/** The states each stream state can transition to */
+const STREAM_TRANSITIONS: Record<StreamState, StreamState[]> = {
+  // A stream that ended in its own window is reported as terminated when the
+  // app handles the redirect back, before any stream has started.
+  [StreamState.Idle]: [StreamState.Loading, StreamState.Terminated],
+  // A new stream may be started at any time, replacing the current stream.
+  [StreamState.Loading]: [
+    StreamState.Loading,
+    StreamState.Streaming,
+    StreamState.Reconnecting,
+    StreamState.Terminated,
+  ],
+  [StreamState.Streaming]: [
+    StreamState.Loading,
+    StreamState.Reconnecting,
+    StreamState.Terminated,
+  ],
+  [StreamState.Reconnecting]: [
+    StreamState.Loading,
+    StreamState.Reconnecting,
+    StreamState.Terminated,
+  ],
+  [StreamState.Terminated]: [StreamState.Loading],
+  [StreamState.Unknown]: ALL_STREAM_STATES,
+}
+
+const TERMINAL_SESSION_STATES = [
+  SessionState.Replaced,
+  SessionState.Expired,
+  SessionState.Failed,
+  SessionState.Deleted,
+]
+
+/**
+ * The current state of the stream and its session.
+ */
+export type StateSnapshot = {
+  stream: StreamState
+  /** The state of the current session, if one has been created */
+  session?: SessionState
+}
+
+/**
+ * Tracks the state of the stream and its session, rejecting invalid transitions.
+ */
+export class StreamStateMachine {
+  private current: StateSnapshot = { stream: StreamState.Idle }
+  private readonly listeners = new Set<(state: StateSnapshot) => void>()
+
+  getState(): StateSnapshot {
+    return { ...this.current }
+  }
+
+  /**
+   * Moves the stream to a new state.
+   * @returns false if the transition is not valid from the current state, in which case the state is unchanged
+   */
+  transitionStream(next: StreamState): boolean {
+    if (!STREAM_TRANSITIONS[this.current.stream].includes(next)) {
+      return false
+    }
+    this.update({ stream: next })
+    return true
+  }
+
+  /**
+   * Records the latest state of the session. Repeated updates with the same
+   * state are valid, as they may carry new queue positions.
+   * @returns false if the session has already reached a terminal state, in which case the state is unchanged
+   */
+  updateSession(next: SessionState): boolean {
+    const { session } = this.current
+    if (session && TERMINAL_SESSION_STATES.includes(session)) {
+      return false
+    }
+    this.update({ session: next })
+    return true
+  }
+
+  /**
+   * Forgets the state of the previous session, before a new session is created.
+   */
+  resetSession(): void {
+    this.update({ session: undefined })
+  }
+
+  /**
+   * Registers a listener called with the new state after every change.
+   * @returns a function that removes the listener
+   */
+  subscribe(listener: (state: StateSnapshot) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private update(changes: Partial<StateSnapshot>) {
+    this.current = { ...this.current, ...changes }
+    for (const listener of this.listeners) {
+      listener(this.getState())
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { saveStreamReturn, takeStreamReturn } from "./stream-return"
+
+function fakeStorage(): Storage {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+    clear: () => items.clear(),
+  }
+}
+
+const record = {
+  provider: "gdn",
+  streamId: "stream",
+  sessionId: "session",
+  projectId: "project",
+  worldId: "world",
+}
+
+describe("stream return records", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    Object.defineProperty(globalThis, "localStorage", {
+      value: fakeStorage(),
+      configurable: true,
+    })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    Reflect.deleteProperty(globalThis, "localStorage")
+  })
+
+  it("should return the record saved for the state", () => {
+    const state = saveStreamReturn(record)
+
+    expect(state).toMatch(/^[0-9a-f]{32}$/)
+    expect(takeStreamReturn(state ?? "")).toEqual(record)
+  })
+
+  it("should only return a record once", () => {
+    const state = saveStreamReturn(record) ?? ""
+
+    takeStreamReturn(state)
+
+    expect(takeStreamReturn(state)).toBeUndefined()
+    expect(localStorage).toHaveLength(0)
+  })
+
+  it("should not return a record for a state that does not match", () => {
+    const state = saveStreamReturn(record) ?? ""
+
+    expect(takeStreamReturn(`${state}0`)).toBeUndefined()
+    expect(takeStreamReturn(state)).toEqual(record)
+  })
+
+  it("should not return an expired record", () => {
+    const state = saveStreamReturn(record) ?? ""
+
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000 + 1)
+
+    expect(takeStreamReturn(state)).toBeUndefined()
+  })
+
+  it("should remove expired records when saving a record", () => {
+    saveStreamReturn(record)
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000 + 1)
+
+    const state = saveStreamReturn(record) ?? ""
+
+    expect(localStorage).toHaveLength(1)
+    expect(takeStreamReturn(state)).toEqual(record)
+  })
+
+  it("should not save a record without storage", () => {
+    Reflect.deleteProperty(globalThis, "localStorage")
+
+    expect(saveStreamReturn(record)).toBeUndefined()
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Bookkeeping for streams that are loaded in their own window and return to
+ * the app via a redirect once they end.
+ *
+ * Before the window is redirected to the provider a random `state` value is
+ * generated and stored alongside the IDs of the stream. The provider passes
+ * the `state` back on the redirect, where it is used to look up the stream.
+ * As each value is random and can only be used once, a redirect that was not
+ * started by this app cannot be used to clean up its sessions.
+ *
+ * Records are kept in `localStorage` as the redirect may return in a new tab.
+ *
+ * @module
+ */
+
+const STORAGE_KEY_PREFIX = "m2-pixel-stream-return:"
+
+/** Records older than this are assumed to be abandoned */
+const MAX_RECORD_AGE_MILLIS = 24 * 60 * 60 * 1000
+
+export type StreamReturnRecord = {
+  provider: string
+  streamId: string
+  sessionId: string
+  projectId: string
+  worldId: string
+}
+
+type StoredRecord = StreamReturnRecord & { createdAt: number }
+
+/**
+ * Stores the record for a stream that is about to be loaded in its own window.
+ *
+ * @returns the `state` value to pass to the provider, or undefined if the record could not be stored
+ */
+export function saveStreamReturn(
+  record: StreamReturnRecord,
+): string | undefined {
+  const storage = getStorage()
+  if (!storage) {
+    return
+  }
+
+  removeExpired(storage)
+
+  const state = randomState()
+  try {
+    storage.setItem(
+      `${STORAGE_KEY_PREFIX}${state}`,
+      JSON.stringify({ ...record, createdAt: Date.now() }),
+    )
+  } catch {
+    return
+  }
+  return state
+}
+
+/**
+ * Looks up and removes the record for the `state` value returned by the provider.
+ *
+ * @returns the record, or undefined if there is no record matching the state
+ */
+export function takeStreamReturn(
+  state: string,
+): StreamReturnRecord | undefined {
+  const storage = getStorage()
+  if (!storage) {
+    return
+  }
+
+  const key = `${STORAGE_KEY_PREFIX}${state}`
+  const item = storage.getItem(key)
+  storage.removeItem(key)
+  if (!item) {
+    return
+  }
+
+  try {
+    const { createdAt, ...record } = JSON.parse(item) as StoredRecord
+    if (Date.now() - createdAt > MAX_RECORD_AGE_MILLIS) {
+      return
+    }
+    return record
+  } catch {
+    return
+  }
+}
+
+function removeExpired(storage: Storage) {
+  for (let i = storage.length - 1; i >= 0; i--) {
+    const key = storage.key(i)
+    if (!key?.startsWith(STORAGE_KEY_PREFIX)) {
+      continue
+    }
+
+    try {
+      const { createdAt } = JSON.parse(storage.getItem(key) ?? "") as Partial<
+        Pick<StoredRecord, "createdAt">
+      >
+      if (!createdAt || Date.now() - createdAt > MAX_RECORD_AGE_MILLIS) {
+        storage.removeItem(key)
+      }
+    } catch {
+      storage.removeItem(key)
+    }
+  }
+}
+
+function randomState(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+function getStorage(): Storage | undefined {
+  try {
+    return globalThis.localStorage
+  } catch {
+    // Accessing storage can throw, e.g. when it is disabled by the user.
+    return
+  }
+}
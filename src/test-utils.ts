@@ -0,0 +1,86 @@
+/**
+ * Helpers shared by the tests. Unlike `./testing`, these are not part of the
+ * package, and may depend on jest.
+ *
+ * @module
+ */
+
+import type {
+  StreamDiagnostic,
+  StreamProviderAdapter,
+  StreamProviderCallbacks,
+} from "./provider"
+
+/**
+ * A logger that records its calls rather than printing them.
+ */
+export function mockLogger() {
+  return {
+    debug: jest.fn(),
+    error: jest.fn(),
+    info: jest.fn(),
+    log: jest.fn(),
+    trace: jest.fn(),
+    warn: jest.fn(),
+  }
+}
+
+/**
+ * A provider adapter whose streams start as soon as it has returned, and are
+ * terminated by the test.
+ */
+export function fakeAdapter() {
+  const listeners = new Set<StreamProviderCallbacks>()
+  const terminate = (e?: Error) => {
+    for (const callbacks of [...listeners]) {
+      callbacks.onTerminated(e)
+    }
+  }
+  const adapter = {
+    /** Whether streams start once the adapter has returned */
+    autoStart: true,
+    load: jest.fn<ReturnType<StreamProviderAdapter["load"]>, []>(
+      async () => undefined,
+    ),
+    startEmbedded: jest.fn(async () => {
+      // The stream starts once the adapter has returned.
+      queueMicrotask(() => {
+        if (!adapter.autoStart) {
+          return
+        }
+        for (const callbacks of [...listeners]) {
+          callbacks.onStarted()
+        }
+      })
+      return undefined
+    }),
+    buildWindowUrl: () => "https://stream.example.com",
+    stop: jest.fn(() => terminate()),
+    listen: (callbacks: StreamProviderCallbacks) => {
+      listeners.add(callbacks)
+      return () => {
+        listeners.delete(callbacks)
+      }
+    },
+    /** Terminates the stream as the provider would, e.g. with an error */
+    terminate,
+    /** Reports a diagnostic as the provider would */
+    diagnose: (diagnostic: StreamDiagnostic) => {
+      for (const callbacks of [...listeners]) {
+        callbacks.onDiagnostic?.(diagnostic)
+      }
+    },
+  }
+  return adapter
+}
+
+/**
+ * A promise that is resolved by the test, e.g. to hold a provider while it loads.
+ */
+export function deferred<T = undefined>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
@@ -0,0 +1,221 @@
+import {
+  type API,
+  type ServerInfo,
+  type ServerType,
+  TerminationErrorCode,
+} from "../gfn/types"
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+declare namespace globalThis {
+  let GFN: API | undefined
+}
+
+type StartParams = Parameters<API["streamer"]["start"]>[0]
+type SettingsDescriptor = ConstructorParameters<API["Settings"]>[0]
+
+type StreamerEvents = {
+  started: undefined
+  terminated: { reason: number; code?: number }
+  diagnostic: { level?: number; code?: number; message?: string }
+}
+
+/**
+ * Methods of the fake SDK that can be made to fail with {@link FakeGFN.failNext}.
+ */
+export type FakeGFNMethod = "initialize" | "loginWithNonce" | "start"
+
+export type FakeGFNOptions = {
+  /** Returned by `server.getServerInfo`, defaults to a single zone */
+  serverInfo?: ServerInfo
+  /** Returned by `streamer.detectStreamingResolution`, defaults to 1920x1080 */
+  resolution?: { width: number; height: number }
+  /** Emits `started` once `streamer.start` resolves, defaults to false */
+  autoStart?: boolean
+}
+
+const DEFAULT_SERVER_INFO: ServerInfo = {
+  version: {},
+  vpcId: "fake-vpc",
+  serverType: 0 as ServerType,
+  defaultZone: { name: "fake-zone", address: "https://fake-zone.invalid" },
+  zones: {},
+  monitorSettings: [],
+}
+
+const FAKE_ID_TOKEN = "fake-guest-id-token"
+
+/**
+ * A scriptable fake of the GFN SDK, for testing the GFN integration without
+ * loading the SDK from sdk.nvidia.com.
+ *
+ * Install it with {@link installFakeGFN} before starting a stream. Tests can
+ * then emit streamer events and make SDK calls fail.
+ *
+ * @example
+ * ```typescript
+ * const gfn = installFakeGFN()
+ * gfn.failNext("loginWithNonce")
+ * gfn.emitTerminated(TerminationErrorCode.NetworkError)
+ * gfn.uninstall()
+ * ```
+ */
+export class FakeGFN implements API {
+  /** The arguments of each call made to the SDK, in order */
+  readonly calls: {
+    initialize: SettingsDescriptor[]
+    loginWithNonce: { nonce: string; appId: number }[]
+    start: StartParams[]
+    cancel: number
+    stop: number
+  } = { initialize: [], loginWithNonce: [], start: [], cancel: 0, stop: 0 }
+
+  readonly Settings = FakeSettings
+
+  readonly auth: API["auth"]
+  readonly server: API["server"]
+  readonly settings = { vpcId: "" }
+  readonly streamer: API["streamer"]
+
+  // Typed by the event when emitted, as `streamer.on` is overloaded per event.
+  private readonly listeners: Record<
+    keyof StreamerEvents,
+    ((e: never) => void)[]
+  > = { started: [], terminated: [], diagnostic: [] }
+  private readonly failures: Partial<Record<FakeGFNMethod, unknown[]>> = {}
+  private previous: API | undefined
+  private streaming = false
+
+  constructor(private readonly opts: FakeGFNOptions = {}) {
+    this.auth = {
+      guestUser: null,
+      loginWithNonce: async (nonce, appId) => {
+        this.calls.loginWithNonce.push({ nonce, appId })
+        this.throwIfFailing("loginWithNonce")
+        this.auth.guestUser = { idToken: FAKE_ID_TOKEN }
+      },
+    }
+    this.server = {
+      getServerInfo: async () => opts.serverInfo ?? DEFAULT_SERVER_INFO,
+    }
+    this.streamer = {
+      detectStreamingResolution: () =>
+        opts.resolution ?? { width: 1920, height: 1080 },
+      start: async (params) => {
+        this.calls.start.push(params)
+        this.throwIfFailing("start")
+        this.streaming = true
+        if (this.opts.autoStart) {
+          this.emitStarted()
+        }
+      },
+      cancel: () => {
+        this.calls.cancel++
+      },
+      stop: () => {
+        this.calls.stop++
+        // As with the SDK, stopping a running stream terminates it.
+        if (this.streaming) {
+          this.emitTerminated()
+        }
+      },
+      on: (event: keyof StreamerEvents, callback: (e: never) => void): void => {
+        this.listeners[event].push(callback)
+      },
+    }
+  }
+
+  async initialize(settings: FakeSettings): Promise<void> {
+    this.calls.initialize.push(settings.descriptor)
+    this.throwIfFailing("initialize")
+  }
+
+  /**
+   * Makes the next call to a method reject. Calling this again queues further
+   * failures, so a method can be made to fail a number of times in a row.
+   * @param error The error the call rejects with
+   */
+  failNext(
+    method: FakeGFNMethod,
+    error: unknown = new Error(`${method} failed`),
+  ) {
+    const failures = this.failures[method] ?? []
+    failures.push(error)
+    this.failures[method] = failures
+  }
+
+  /**
+   * Emits `started`, as the SDK does once the first frame is shown.
+   */
+  emitStarted() {
+    this.emit("started", undefined)
+  }
+
+  /**
+   * Emits `terminated`, by default for a stream that ended intentionally.
+   */
+  emitTerminated(
+    code:
+      | TerminationErrorCode
+      | number = TerminationErrorCode.ServerDisconnectedIntended,
+    reason = 0,
+  ) {
+    this.streaming = false
+    this.emit("terminated", { code, reason })
+  }
+
+  /**
+   * Emits `diagnostic`, e.g. a warning or a start failure the SDK reports
+   * without terminating.
+   */
+  emitDiagnostic(diagnostic: StreamerEvents["diagnostic"]) {
+    this.emit("diagnostic", diagnostic)
+  }
+
+  /**
+   * Sets this fake as `globalThis.GFN`, so that the SDK script is not loaded.
+   */
+  install(): this {
+    this.previous = globalThis.GFN
+    globalThis.GFN = this
+    return this
+  }
+
+  /**
+   * Restores the `globalThis.GFN` replaced by {@link install}.
+   */
+  uninstall() {
+    if (globalThis.GFN !== this) {
+      return
+    }
+    if (this.previous) {
+      globalThis.GFN = this.previous
+    } else {
+      Reflect.deleteProperty(globalThis, "GFN")
+    }
+    this.previous = undefined
+  }
+
+  private emit<E extends keyof StreamerEvents>(event: E, e: StreamerEvents[E]) {
+    for (const listener of [...this.listeners[event]]) {
+      ;(listener as (e: StreamerEvents[E]) => void)(e)
+    }
+  }
+
+  private throwIfFailing(method: FakeGFNMethod) {
+    const failures = this.failures[method]
+    if (failures?.length) {
+      throw failures.shift()
+    }
+  }
+}
+
+class FakeSettings {
+  constructor(readonly descriptor: SettingsDescriptor = {}) {}
+}
+
+/**
+ * Creates a {@link FakeGFN} and installs it as `globalThis.GFN`.
+ */
+export function installFakeGFN(opts?: FakeGFNOptions): FakeGFN {
+  return new FakeGFN(opts).install()
+}
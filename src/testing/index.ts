@@ -0,0 +1,22 @@
+/**
+ * Test doubles for testing an integration with the pixel streaming client.
+ *
+ * @module
+ */
+
+export { TerminationErrorCode } from "../gfn/types"
+export {
+  FakeGFN,
+  type FakeGFNMethod,
+  type FakeGFNOptions,
+  installFakeGFN,
+} from "./gfn"
+export {
+  type MockSession,
+  type MockSessionRequest,
+  type MockSessionResponse,
+  type MockSessionRoute,
+  MockSessionServer,
+  type MockSessionServerHandle,
+  type MockSessionServerOptions,
+} from "./sessions"
@@ -0,0 +1,123 @@
+import {
+  SessionClient,
+  SessionRateLimitedError,
+  SessionReplacedError,
+  SessionState,
+} from "../session"
+import { mockLogger } from "../test-utils"
+import { MockSessionServer } from "./sessions"
+
+const metadata = {
+  browserName: "Chrome",
+  browserVersion: 120,
+  osName: "Mac OS",
+  deviceModel: "",
+  deviceType: "",
+  ubitusSupported: true,
+  geforceSupported: true,
+}
+
+const logger = mockLogger()
+
+const session = {
+  projectId: "project",
+  worldId: "world",
+  streamId: "stream",
+  sessionMetadata: metadata,
+}
+
+describe("MockSessionServer", () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("should move a session through the queue until it is active", async () => {
+    jest.useFakeTimers()
+    const server = new MockSessionServer({ token: "token" })
+    const client = new SessionClient({
+      fetch: server.fetch,
+      token: "token",
+      logger,
+    })
+    const states: SessionState[] = []
+
+    const created = client.createSession({
+      ...session,
+      onStateChange: (state) => states.push(state),
+    })
+    await jest.runAllTimersAsync()
+    const result = await created
+
+    expect(states).toEqual([
+      SessionState.Queued,
+      SessionState.Admitted,
+      SessionState.Ready,
+      SessionState.Active,
+    ])
+    expect(result).toMatchObject({
+      sessionId: "mock-session-1",
+      providerConfig: { sessionId: "mock-session-1", nonce: "mock-nonce" },
+    })
+
+    const deleted = await client.deleteSession({
+      ...session,
+      sessionId: "mock-session-1",
+      deletionReason: "done",
+    })
+
+    expect(deleted).toBeUndefined()
+    expect(server.getSession("mock-session-1")).toMatchObject({
+      state: SessionState.Deleted,
+      deletionReason: "done",
+    })
+  })
+
+  it("should return scripted responses and terminal states", async () => {
+    const server = new MockSessionServer({
+      states: [SessionState.Queued, SessionState.Active],
+    })
+    server.respondNext("create", { status: 429 })
+    const client = new SessionClient({ fetch: server.fetch, logger })
+
+    expect(await client.createSession(session)).toBeInstanceOf(
+      SessionRateLimitedError,
+    )
+
+    // Without a World ID, the queued session is returned without polling.
+    expect(
+      await client.createSession({ ...session, worldId: undefined }),
+    ).toMatchObject({ sessionId: "mock-session-1", queuePosition: 1 })
+    server.setState("mock-session-1", SessionState.Replaced)
+
+    const watched = await client.watchSession({
+      ...session,
+      sessionId: "mock-session-1",
+      intervalMillis: 0,
+    })
+
+    expect(watched).toBeInstanceOf(SessionReplacedError)
+  })
+
+  it("should serve the session API over HTTP", async () => {
+    const server = new MockSessionServer({ states: [SessionState.Active] })
+    const handle = await server.listen()
+
+    try {
+      const client = new SessionClient({
+        host: handle.host,
+        protocol: "http",
+        logger,
+      })
+      const result = await client.createSession(session)
+
+      expect(result).toMatchObject({ state: SessionState.Active })
+      expect(server.requests[0]).toMatchObject({
+        route: "create",
+        headers: { "x-m2-project-id": "project" },
+        body: { streamId: "stream" },
+      })
+    } finally {
+      await handle.close()
+    }
+  })
+})
@@ -0,0 +1,428 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { StreamProvider } from "../client"
+import { SessionState, type StreamConfig } from "../session"
+import type { Fetch } from "../types"
+
+/**
+ * Requests the mock server handles, as made by the `SessionClient`.
+ */
+export type MockSessionRoute = "create" | "refresh" | "delete"
+
+/**
+ * A response to return instead of handling a request, e.g. an error.
+ */
+export type MockSessionResponse = {
+  status: number
+  /** Serialized as JSON unless it is a string */
+  body?: unknown
+  /** Overrides the server's delay for this response */
+  delayMillis?: number
+}
+
+/**
+ * A request received by the mock server.
+ */
+export type MockSessionRequest = {
+  route?: MockSessionRoute
+  method: string
+  path: string
+  headers: Record<string, string>
+  body?: unknown
+}
+
+/**
+ * A session held by the mock server.
+ */
+export type MockSession = {
+  sessionId: string
+  projectId: string
+  worldId?: string
+  streamId?: string
+  state: SessionState
+  /** The reason given when the session was deleted */
+  deletionReason?: string
+}
+
+export type MockSessionServerOptions = {
+  /**
+   * The states each new session moves through, one state per request: the
+   * create request returns the first state and each refresh the next. The
+   * session stays in the last state. Defaults to Queued, Admitted, Ready, Active.
+   */
+  states?: SessionState[]
+  /** The provider config of active sessions, defaults to a GeForce NOW config */
+  providerConfig?: StreamConfig
+  /** Delay before each response */
+  delayMillis?: number
+  /** If set, requests without this bearer token are rejected with a 401 */
+  token?: string
+}
+
+/**
+ * A mock server listening for HTTP requests, see {@link MockSessionServer.listen}.
+ */
+export type MockSessionServerHandle = {
+  /** The host to pass as the `host` option with the `http` protocol */
+  host: string
+  url: string
+  close(): Promise<void>
+}
+
+type StoredSession = MockSession & {
+  /** The index of the session's state in its states */
+  step: number
+  states: SessionState[]
+}
+
+const DEFAULT_STATES = [
+  SessionState.Queued,
+  SessionState.Admitted,
+  SessionState.Ready,
+  SessionState.Active,
+]
+
+const TERMINAL_STATES = [
+  SessionState.Replaced,
+  SessionState.Expired,
+  SessionState.Failed,
+  SessionState.Deleted,
+]
+
+const DEFAULT_PROVIDER_CONFIG: StreamConfig = {
+  name: StreamProvider.GeforceNow,
+  cmsId: "100000",
+  nonce: "mock-nonce",
+  redirect: "",
+  partnerId: "mock-partner",
+  sessionId: "",
+}
+
+// Requests to the mock's fetch may be relative, as there is no host by default.
+const BASE_URL = "http://mock-sessions.invalid"
+const SESSIONS_PATH = /^\/api\/sessions(?:\/([^/]+))?\/?$/
+
+/**
+ * An in-process stand-in for the Morpheus session API, for running the
+ * session flow offline. Use {@link MockSessionServer.fetch} as the `fetch`
+ * option of the client, or {@link MockSessionServer.listen} to serve it over HTTP.
+ *
+ * Sessions move through the configured states as they are refreshed, and
+ * tests can script error responses and terminal states.
+ *
+ * Note that the client waits between refreshes while a session is queued, so
+ * tests using the default states should use fake timers.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockSessionServer({ states: [SessionState.Active] })
+ * server.respondNext("create", { status: 503 })
+ * const client = new StreamingClient({ fetch: server.fetch })
+ * ```
+ */
+export class MockSessionServer {
+  /** Every request received, in order */
+  readonly requests: MockSessionRequest[] = []
+
+  private readonly sessions = new Map<string, StoredSession>()
+  private readonly scripted: {
+    route?: MockSessionRoute
+    response: MockSessionResponse
+  }[] = []
+  private nextId = 1
+
+  constructor(private readonly opts: MockSessionServerOptions = {}) {}
+
+  /**
+   * Handles a request as the session API would.
+   */
+  readonly fetch: Fetch = async (input, init) => {
+    const request =
+      input instanceof Request
+        ? new Request(input, init)
+        : new Request(new URL(input.toString(), BASE_URL), init)
+    return this.handle(request)
+  }
+
+  /**
+   * Returns a response for the next matching request instead of handling it.
+   * Calling this again queues further responses, e.g. to fail a number of
+   * requests in a row.
+   * @param route The request to respond to, or any request if undefined
+   */
+  respondNext(
+    route: MockSessionRoute | undefined,
+    response: MockSessionResponse,
+  ): void {
+    this.scripted.push({ route, response })
+  }
+
+  /**
+   * Moves a session to a state, e.g. to end it as replaced or expired. The
+   * session stays in the state.
+   */
+  setState(sessionId: string, state: SessionState): void {
+    const session = this.sessions.get(sessionId)
+    if (session) {
+      session.state = state
+      session.states = [state]
+      session.step = 0
+    }
+  }
+
+  /**
+   * @returns the session with the ID, if it has been created
+   */
+  getSession(sessionId: string): MockSession | undefined {
+    const session = this.sessions.get(sessionId)
+    if (!session) {
+      return
+    }
+    return {
+      sessionId: session.sessionId,
+      projectId: session.projectId,
+      worldId: session.worldId,
+      streamId: session.streamId,
+      state: session.state,
+      deletionReason: session.deletionReason,
+    }
+  }
+
+  /**
+   * @returns all sessions that have been created, in order
+   */
+  listSessions(): MockSession[] {
+    return [...this.sessions.keys()].flatMap(
+      (sessionId) => this.getSession(sessionId) ?? [],
+    )
+  }
+
+  /**
+   * Serves the session API over HTTP on the loopback interface. Only
+   * available in Node.js.
+   * @param port The port to listen on, defaults to any free port
+   */
+  async listen(port = 0): Promise<MockSessionServerHandle> {
+    const { createServer } = await import("node:http")
+    const server = createServer((req, res) => {
+      void this.serve(req, res)
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject)
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject)
+        resolve()
+      })
+    })
+
+    const address = server.address()
+    const host = `127.0.0.1:${typeof address === "object" ? address?.port : port}`
+    return {
+      host,
+      url: `http://${host}`,
+      close: () =>
+        new Promise<void>((resolve) => {
+          server.closeAllConnections()
+          server.close(() => resolve())
+        }),
+    }
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const match = SESSIONS_PATH.exec(url.pathname)
+    const sessionId = match?.[1]
+    const method = request.method.toUpperCase()
+    const route = match ? routeOf(method, sessionId) : undefined
+
+    const text = await request.text()
+    const body = text ? parseJSON(text) : undefined
+    this.requests.push({
+      route,
+      method,
+      path: url.pathname,
+      headers: Object.fromEntries(request.headers),
+      body,
+    })
+
+    const index = this.scripted.findIndex(
+      (scripted) => !scripted.route || scripted.route === route,
+    )
+    const scripted =
+      index === -1 ? undefined : this.scripted.splice(index, 1)[0]?.response
+
+    await delay(
+      scripted?.delayMillis ?? this.opts.delayMillis ?? 0,
+      request.signal,
+    )
+
+    if (scripted) {
+      return respond(scripted.status, scripted.body)
+    }
+    if (
+      this.opts.token &&
+      request.headers.get("authorization") !== `Bearer ${this.opts.token}`
+    ) {
+      return respond(401, { error: "unauthorized" })
+    }
+
+    const projectId = request.headers.get("x-m2-project-id")
+    if (!projectId) {
+      return respond(400, { error: "missing x-m2-project-id header" })
+    }
+
+    switch (route) {
+      case "create":
+        return respond(200, this.create(projectId, request, body))
+      case "refresh":
+      case "delete": {
+        const session = sessionId ? this.sessions.get(sessionId) : undefined
+        if (!session || session.projectId !== projectId) {
+          return respond(404, { error: "session not found" })
+        }
+        if (route === "delete") {
+          this.setState(session.sessionId, SessionState.Deleted)
+          session.deletionReason = (
+            body as { deletionReason?: string } | undefined
+          )?.deletionReason
+          return new Response(null, { status: 204 })
+        }
+        this.advance(session)
+        return respond(200, this.toJSON(session))
+      }
+      default:
+        return respond(404, { error: "not found" })
+    }
+  }
+
+  private create(projectId: string, request: Request, body: unknown) {
+    const states = this.opts.states?.length ? this.opts.states : DEFAULT_STATES
+    const session = {
+      sessionId: `mock-session-${this.nextId++}`,
+      projectId,
+      worldId: request.headers.get("x-m2-world-id") || undefined,
+      streamId: (body as { streamId?: string } | undefined)?.streamId,
+      state: states[0] ?? SessionState.Active,
+      step: 0,
+      states,
+    }
+    this.sessions.set(session.sessionId, session)
+    return this.toJSON(session)
+  }
+
+  private advance(session: StoredSession) {
+    if (TERMINAL_STATES.includes(session.state)) {
+      return
+    }
+    session.step = Math.min(session.step + 1, session.states.length - 1)
+    session.state = session.states[session.step] ?? session.state
+  }
+
+  private toJSON(session: MockSession) {
+    const queued = [...this.sessions.values()].filter(
+      ({ state }) => state === SessionState.Queued,
+    )
+    const queuePosition =
+      session.state === SessionState.Queued
+        ? queued.findIndex(({ sessionId }) => sessionId === session.sessionId) +
+          1
+        : undefined
+
+    return {
+      sessionId: session.sessionId,
+      state: session.state,
+      queuePosition,
+      providerConfig:
+        session.state === SessionState.Active
+          ? {
+              ...(this.opts.providerConfig ?? DEFAULT_PROVIDER_CONFIG),
+              sessionId: session.sessionId,
+            }
+          : undefined,
+    }
+  }
+
+  private async serve(req: IncomingMessage, res: ServerResponse) {
+    const chunks: Uint8Array[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk)
+    }
+
+    const controller = new AbortController()
+    res.on("close", () => controller.abort())
+
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (typeof value === "string") {
+        headers.set(name, value)
+      }
+    }
+    const body = chunks.length ? Buffer.concat(chunks) : undefined
+
+    try {
+      const response = await this.handle(
+        new Request(new URL(req.url ?? "/", BASE_URL), {
+          method: req.method,
+          headers,
+          body,
+          signal: controller.signal,
+        }),
+      )
+      res.writeHead(response.status, Object.fromEntries(response.headers))
+      res.end(Buffer.from(await response.arrayBuffer()))
+    } catch {
+      // The request was aborted by the client.
+      res.destroy()
+    }
+  }
+}
+
+function routeOf(
+  method: string,
+  sessionId: string | undefined,
+): MockSessionRoute | undefined {
+  if (method === "POST") {
+    return sessionId ? "refresh" : "create"
+  }
+  if (method === "DELETE" && sessionId) {
+    return "delete"
+  }
+}
+
+function respond(status: number, body?: unknown): Response {
+  if (body === undefined) {
+    return new Response(null, { status })
+  }
+  return typeof body === "string"
+    ? new Response(body, { status })
+    : Response.json(body, { status })
+}
+
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Waits for the given time, rejecting like `fetch` if the signal is aborted.
+ */
+function delay(millis: number, signal: AbortSignal): Promise<void> {
+  if (millis <= 0) {
+    return signal.aborted ? Promise.reject(signal.reason) : Promise.resolve()
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      globalThis.clearTimeout(timeout)
+      reject(signal.reason)
+    }
+    const timeout = globalThis.setTimeout(() => {
+      signal.removeEventListener("abort", onAbort)
+      resolve()
+    }, millis)
+    signal.addEventListener("abort", onAbort, { once: true })
+  })
+}
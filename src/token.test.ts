@@ -0,0 +1,78 @@
+import { getTokenExpiry, TokenCache } from "./token"
+
+function jwt(payload: object) {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/=+$/, "")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+  return `${encode({ alg: "none" })}.${encode(payload)}.signature`
+}
+
+describe("getTokenExpiry", () => {
+  it("should read the exp claim of a JWT in milliseconds", () => {
+    expect(getTokenExpiry(jwt({ exp: 1700000000 }))).toBe(1700000000000)
+  })
+
+  it("should return undefined for tokens that are not JWTs", () => {
+    expect(getTokenExpiry("opaque-token")).toBeUndefined()
+    expect(getTokenExpiry("not.a-jwt.token")).toBeUndefined()
+    expect(getTokenExpiry(jwt({ sub: "user" }))).toBeUndefined()
+  })
+})
+
+describe("TokenCache", () => {
+  let now = 0
+
+  beforeEach(() => {
+    now = 1_000_000
+  })
+
+  it("should return string tokens as is", async () => {
+    const cache = new TokenCache("token")
+    expect(await cache.get()).toBe("token")
+    expect(cache.canRefresh()).toBe(false)
+  })
+
+  it("should cache tokens from a factory until they are about to expire", async () => {
+    const expiring = jwt({ exp: (now + 120_000) / 1000 })
+    const factory = jest.fn(() => expiring)
+    const cache = new TokenCache(factory, 60_000, () => now)
+
+    expect(await cache.get()).toBe(expiring)
+    expect(await cache.get()).toBe(expiring)
+    expect(factory).toHaveBeenCalledTimes(1)
+
+    now += 61_000
+    await cache.get()
+    expect(factory).toHaveBeenCalledTimes(2)
+  })
+
+  it("should call the factory again when refresh is requested", async () => {
+    const factory = jest.fn(async () => "opaque-token")
+    const cache = new TokenCache(factory)
+
+    await cache.get()
+    await cache.get({ refresh: true })
+
+    expect(factory).toHaveBeenCalledTimes(2)
+  })
+
+  it("should share a single factory call between concurrent requests", async () => {
+    const factory = jest.fn(async () => "opaque-token")
+    const cache = new TokenCache(factory)
+
+    await Promise.all([cache.get(), cache.get(), cache.get()])
+
+    expect(factory).toHaveBeenCalledTimes(1)
+  })
+
+  it("should discard the cached token when the token is set", async () => {
+    const cache = new TokenCache(() => "first")
+    await cache.get()
+
+    cache.set(() => "second")
+
+    expect(await cache.get()).toBe("second")
+  })
+})
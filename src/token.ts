@@ -0,0 +1,120 @@
+/**
+ * Caching of bearer tokens obtained from a {@link Token} factory.
+ *
+ * Tokens that are JWTs are cached until shortly before their `exp` claim, so
+ * that a factory is not called on every request but a token is never sent
+ * after it has expired. Tokens that are not JWTs, or have no `exp` claim, are
+ * cached until {@link TokenCache.get} is called with `refresh`.
+ *
+ * @module
+ */
+
+import type { Token } from "./types"
+
+/** How long before a token expires that it should be refreshed */
+const DEFAULT_REFRESH_MARGIN_MILLIS = 60_000
+
+type CachedToken = {
+  value: string
+  expiresAt?: number
+}
+
+export class TokenCache {
+  private cached?: CachedToken
+  private pending?: Promise<CachedToken>
+
+  constructor(
+    private token?: Token,
+    private readonly refreshMarginMillis = DEFAULT_REFRESH_MARGIN_MILLIS,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Sets or updates the token, discarding any cached value.
+   */
+  set(token: Token): void {
+    this.token = token
+    this.cached = undefined
+    this.pending = undefined
+  }
+
+  /**
+   * Whether a new token can be obtained, i.e. the token is a factory.
+   */
+  canRefresh(): boolean {
+    return typeof this.token === "function"
+  }
+
+  /**
+   * Gets the current token, calling the factory if there is no cached token,
+   * the cached token is about to expire, or `refresh` is set.
+   *
+   * @returns the token, or undefined if no token has been set
+   */
+  async get({
+    refresh = false,
+  }: {
+    refresh?: boolean
+  } = {}): Promise<string | undefined> {
+    const token = this.token
+    if (token === undefined) {
+      return
+    }
+
+    if (typeof token === "string") {
+      return token
+    }
+
+    if (!refresh && this.cached && !this.isExpiring(this.cached)) {
+      return this.cached.value
+    }
+
+    // Share a single call to the factory between concurrent requests.
+    if (!this.pending) {
+      this.pending = Promise.resolve(token()).then((value) => ({
+        value,
+        expiresAt: getTokenExpiry(value),
+      }))
+    }
+    const pending = this.pending
+
+    try {
+      const cached = await pending
+      if (this.token === token) {
+        this.cached = cached
+      }
+      return cached.value
+    } finally {
+      if (this.pending === pending) {
+        this.pending = undefined
+      }
+    }
+  }
+
+  private isExpiring({ expiresAt }: CachedToken): boolean {
+    return (
+      expiresAt !== undefined &&
+      expiresAt - this.refreshMarginMillis <= this.now()
+    )
+  }
+}
+
+/**
+ * Reads the expiry time from a JWT.
+ *
+ * @returns the `exp` claim in milliseconds since the epoch, or undefined if the token is not a JWT or has no `exp`
+ */
+export function getTokenExpiry(token: string): number | undefined {
+  const payload = token.split(".")[1]
+  if (!payload) {
+    return
+  }
+
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"))
+    const { exp } = JSON.parse(json) as { exp?: unknown }
+    return typeof exp === "number" ? exp * 1000 : undefined
+  } catch {
+    return
+  }
+}
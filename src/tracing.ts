@@ -0,0 +1,105 @@
+/**
+ * Tracer-agnostic hooks for tracing session and stream operations.
+ *
+ * A {@link Tracer} can be implemented on top of any tracing library, e.g.
+ * OpenTelemetry, without this package depending on it:
+ *
+ * @example
+ * ```typescript
+ * const otel = trace.getTracer("pixel-streaming")
+ * const tracer: Tracer = {
+ *   startSpan(name, { attributes, parent }) {
+ *     const ctx = parent ? (parent as OtelSpan).ctx : context.active()
+ *     const span = otel.startSpan(name, { attributes }, ctx)
+ *     const spanCtx = trace.setSpan(ctx, span)
+ *     return {
+ *       ctx: spanCtx,
+ *       setAttributes: (attributes) => span.setAttributes(attributes),
+ *       recordError: (error) => span.recordException(error),
+ *       end: () => span.end(),
+ *       propagationHeaders: () => {
+ *         const headers = {}
+ *         propagation.inject(spanCtx, headers)
+ *         return headers
+ *       },
+ *     }
+ *   },
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import errors from "./errors"
+
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>
+
+/**
+ * A span covering a single operation.
+ */
+export type Span = {
+  /** Adds or updates attributes of the span */
+  setAttributes(attributes: SpanAttributes): void
+  /** Records that the operation failed with an error */
+  recordError(error: Error): void
+  /** Ends the span */
+  end(): void
+  /**
+   * Headers that propagate the span's trace context to the Morpheus API, e.g.
+   * a W3C `traceparent` header, so that backend traces join up with the span.
+   */
+  propagationHeaders?(): Record<string, string>
+}
+
+/**
+ * Starts spans for session and stream operations.
+ */
+export type Tracer = {
+  startSpan(
+    name: string,
+    opts: {
+      attributes?: SpanAttributes
+      /** The span of the operation this operation is part of */
+      parent?: Span
+    },
+  ): Span
+}
+
+const NOOP_SPAN: Span = {
+  setAttributes() {},
+  recordError() {},
+  end() {},
+}
+
+/** A tracer that does nothing, used when no tracer is configured */
+export const noopTracer: Tracer = {
+  startSpan: () => NOOP_SPAN,
+}
+
+/**
+ * Runs an operation in a new span. The span records any error the operation
+ * returns or throws, and ends once the operation completes.
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  opts: { attributes?: SpanAttributes; parent?: Span },
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  const span = tracer.startSpan(name, opts)
+  try {
+    const result = await fn(span)
+    if (result instanceof Error) {
+      span.recordError(result)
+    }
+    return result
+  } catch (e) {
+    span.recordError(errors.wrap(e))
+    throw e
+  } finally {
+    span.end()
+  }
+}
@@ -0,0 +1,135 @@
+import { StreamProvider } from "../client"
+import type { UbitusStreamConfig } from "../session"
+import { mockLogger } from "../test-utils"
+import { UbitusAdapter, UbitusStream, UbitusTerminationError } from "."
+
+const config: UbitusStreamConfig = {
+  name: StreamProvider.Ubitus,
+  keepAlivePath: "/keep-alive",
+  launcherToken: "launcher-token",
+  gameLabel: "game",
+  token: "token",
+  server: "https://ubitus.example.com",
+  gameChannel: "channel",
+  sessionId: "session",
+}
+
+const logger = mockLogger()
+
+const INTERVAL_MILLIS = 1000
+
+function createStream(fetch: jest.Mock) {
+  const stream = new UbitusStream(config, {
+    fetch,
+    logger,
+    keepAliveIntervalMillis: INTERVAL_MILLIS,
+  })
+  const callbacks = { onStarted: jest.fn(), onTerminated: jest.fn() }
+  stream.listen(callbacks)
+  return { stream, callbacks }
+}
+
+describe("UbitusStream keep-alive", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("should send keep-alive requests to the stream server", async () => {
+    const fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 })
+    const { stream, callbacks } = createStream(fetch)
+
+    stream.startKeepAlive()
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS * 2)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(fetch).toHaveBeenCalledWith(
+      new URL("https://ubitus.example.com/keep-alive"),
+      { method: "post", headers: { Authorization: "Bearer token" } },
+    )
+    expect(callbacks.onTerminated).not.toHaveBeenCalled()
+    stream.stop()
+  })
+
+  it("should terminate when a keep-alive request is rejected", async () => {
+    const fetch = jest.fn().mockResolvedValue({ ok: false, status: 410 })
+    const { stream, callbacks } = createStream(fetch)
+
+    stream.startKeepAlive()
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS * 3)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(callbacks.onTerminated).toHaveBeenCalledTimes(1)
+    const error = callbacks.onTerminated.mock.calls[0]?.[0]
+    expect(error).toBeInstanceOf(UbitusTerminationError)
+    expect(error).toMatchObject({ status: 410 })
+  })
+
+  it("should terminate once keep-alive requests fail repeatedly", async () => {
+    const fetch = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockRejectedValue(new TypeError("Failed to fetch"))
+    const { stream, callbacks } = createStream(fetch)
+
+    stream.startKeepAlive()
+    // A successful request resets the count of failures.
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS * 4)
+    expect(callbacks.onTerminated).not.toHaveBeenCalled()
+
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS)
+    expect(callbacks.onTerminated).toHaveBeenCalledTimes(1)
+    const error = callbacks.onTerminated.mock.calls[0]?.[0]
+    expect(error).toBeInstanceOf(UbitusTerminationError)
+    expect(error).toMatchObject({ status: -1 })
+
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS * 3)
+    expect(fetch).toHaveBeenCalledTimes(5)
+  })
+
+  it("should stop sending keep-alive requests once stopped", async () => {
+    const fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 })
+    const { stream, callbacks } = createStream(fetch)
+
+    stream.startKeepAlive()
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS)
+    stream.stop()
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS * 3)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(callbacks.onTerminated).toHaveBeenCalledTimes(1)
+    expect(callbacks.onTerminated).toHaveBeenCalledWith(undefined)
+    expect(jest.getTimerCount()).toBe(0)
+  })
+})
+
+describe("UbitusAdapter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("should keep a window stream alive until it is stopped", async () => {
+    const fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 })
+    const adapter = new UbitusAdapter({
+      fetch,
+      logger,
+      keepAliveIntervalMillis: INTERVAL_MILLIS,
+    })
+
+    const stopWindow = adapter.startWindow(config)
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS)
+    stopWindow()
+    await jest.advanceTimersByTimeAsync(INTERVAL_MILLIS * 3)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(jest.getTimerCount()).toBe(0)
+  })
+})
@@ -0,0 +1,245 @@
+import type { StreamProviderAdapter } from "../provider"
+import type { UbitusStreamConfig } from "../session"
+import type { Fetch, Logger } from "../types"
+
+const DEFAULT_KEEP_ALIVE_INTERVAL_MILLIS = 30_000
+const MAX_KEEP_ALIVE_FAILURES = 3
+
+const UBITUS_PLAYER_ELEMENT_ID = "ubitus-container"
+
+type Callbacks = {
+  onStarted: () => void
+  onTerminated: (e?: UbitusTerminationError) => void
+}
+
+export class UbitusClientError extends Error {
+  override readonly name: string = "UbitusClientError"
+}
+
+export class UbitusTerminationError extends UbitusClientError {
+  override readonly name: string = "UbitusTerminationError"
+
+  constructor(
+    public status: number,
+    message?: string,
+    opts?: ErrorOptions,
+  ) {
+    super(message, opts)
+  }
+}
+
+type Options = {
+  fetch: Fetch
+  logger: Logger
+  keepAliveIntervalMillis?: number
+}
+
+/**
+ * A single Ubitus stream. Unlike GFN there is no SDK to load, the Ubitus
+ * player is served from the stream server and either embedded in an iframe or
+ * opened in its own window. While the stream is running the session is kept
+ * alive by periodically calling the `keepAlivePath` on the stream server.
+ */
+export class UbitusStream {
+  private player?: HTMLIFrameElement
+  private keepAlive?: ReturnType<typeof setInterval>
+  private callbacks?: Callbacks
+  private terminated = false
+
+  constructor(
+    public readonly config: UbitusStreamConfig,
+    private readonly opts: Options,
+  ) {}
+
+  /**
+   * Embeds the Ubitus player into the container and starts the keep-alive.
+   */
+  start(container: HTMLElement) {
+    this.player?.remove()
+
+    this.player = document.createElement("iframe")
+    this.player.setAttribute("id", UBITUS_PLAYER_ELEMENT_ID)
+    this.player.setAttribute(
+      "allow",
+      "autoplay; fullscreen; gamepad; keyboard-map; pointer-lock",
+    )
+    this.player.setAttribute(
+      "style",
+      "width: 100%; height: 100%; border: none; background: black;",
+    )
+    this.player.addEventListener("load", () => this.callbacks?.onStarted(), {
+      once: true,
+    })
+    this.player.src = buildUbitusUrl(this.config)
+    container.append(this.player)
+
+    this.startKeepAlive()
+  }
+
+  /**
+   * Starts sending keep-alive requests for the stream. Does nothing if the
+   * config does not include a `keepAlivePath`.
+   */
+  startKeepAlive() {
+    const { keepAlivePath, server, token } = this.config
+    if (!keepAlivePath || this.keepAlive) {
+      return
+    }
+
+    const url = new URL(keepAlivePath, server)
+    const intervalMillis =
+      this.opts.keepAliveIntervalMillis ?? DEFAULT_KEEP_ALIVE_INTERVAL_MILLIS
+    let failures = 0
+
+    this.keepAlive = setInterval(async () => {
+      try {
+        const response = await this.opts.fetch(url, {
+          method: "post",
+          headers: { Authorization: `Bearer ${token}` },
+        })
+
+        if (!response.ok) {
+          this.terminate(
+            new UbitusTerminationError(
+              response.status,
+              "keep-alive request was rejected",
+            ),
+          )
+          return
+        }
+
+        failures = 0
+      } catch (cause) {
+        failures++
+        this.opts.logger.warn("Failed to make Ubitus keep-alive request:", {
+          error: cause,
+          failures,
+        })
+
+        if (failures >= MAX_KEEP_ALIVE_FAILURES) {
+          this.terminate(
+            new UbitusTerminationError(-1, "keep-alive request failed", {
+              cause,
+            }),
+          )
+        }
+      }
+    }, intervalMillis)
+  }
+
+  /**
+   * Stops sending keep-alive requests without terminating the stream.
+   */
+  stopKeepAlive() {
+    clearInterval(this.keepAlive)
+    this.keepAlive = undefined
+  }
+
+  /**
+   * Stops the stream, removing the player and reporting a normal termination.
+   */
+  stop() {
+    this.terminate()
+  }
+
+  /**
+   * @returns a function that removes the callbacks
+   */
+  listen(callbacks: Callbacks): () => void {
+    this.callbacks = callbacks
+    return () => {
+      if (this.callbacks === callbacks) {
+        this.callbacks = undefined
+      }
+    }
+  }
+
+  private terminate(e?: UbitusTerminationError) {
+    this.stopKeepAlive()
+    this.player?.remove()
+    this.player = undefined
+
+    if (this.terminated) {
+      return
+    }
+    this.terminated = true
+    this.callbacks?.onTerminated(e)
+  }
+}
+
+/**
+ * Adapter for streaming via Ubitus. Only one stream is run at a time, starting
+ * a new stream stops the previous one.
+ */
+export class UbitusAdapter
+  implements StreamProviderAdapter<UbitusStreamConfig>
+{
+  private stream?: UbitusStream
+  private callbacks?: Callbacks
+  private unlistenStream?: () => void
+
+  constructor(private readonly opts: Options) {}
+
+  async load(): Promise<undefined> {
+    // Nothing to load, the player is served by the stream server.
+  }
+
+  async startEmbedded(
+    element: HTMLElement,
+    config: UbitusStreamConfig,
+  ): Promise<undefined> {
+    this.createStream(config).start(element)
+  }
+
+  // The launcher has no fullscreen option and does not redirect back to the
+  // app, so neither window option applies.
+  buildWindowUrl(config: UbitusStreamConfig): string {
+    return buildUbitusUrl(config)
+  }
+
+  startWindow(config: UbitusStreamConfig): () => void {
+    const stream = this.createStream(config)
+    stream.startKeepAlive()
+    return () => stream.stopKeepAlive()
+  }
+
+  stop() {
+    this.stream?.stop()
+    this.stream = undefined
+  }
+
+  listen(callbacks: Callbacks): () => void {
+    this.callbacks = callbacks
+    return () => {
+      if (this.callbacks === callbacks) {
+        this.callbacks = undefined
+        this.unlistenStream?.()
+      }
+    }
+  }
+
+  dispose() {
+    this.callbacks = undefined
+    this.unlistenStream?.()
+    this.stop()
+  }
+
+  private createStream(config: UbitusStreamConfig): UbitusStream {
+    this.stream?.stop()
+    this.stream = new UbitusStream(config, this.opts)
+    this.unlistenStream = this.callbacks && this.stream.listen(this.callbacks)
+    return this.stream
+  }
+}
+
+export function buildUbitusUrl(cfg: UbitusStreamConfig) {
+  const url = new URL("/launcher", cfg.server)
+  const q = url.searchParams
+
+  q.append("launcher_token", cfg.launcherToken)
+  q.append("game_label", cfg.gameLabel)
+  q.append("channel", cfg.gameChannel)
+  q.append("token", cfg.token)
+
+  return url.href
+}
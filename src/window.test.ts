@@ -0,0 +1,68 @@
+import { StreamWindowCloseReason, StreamWindowHandle } from "./window"
+
+function fakeWindow() {
+  const win = {
+    closed: false,
+    crossOrigin: false,
+    close: jest.fn(() => {
+      win.closed = true
+    }),
+    focus: jest.fn(),
+    get location() {
+      if (win.crossOrigin) {
+        throw new Error("SecurityError")
+      }
+      return { href: "https://app.example/" }
+    },
+  }
+  return win
+}
+
+describe("StreamWindowHandle", () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("should resolve when the window is closed", async () => {
+    const win = fakeWindow()
+    const handle = new StreamWindowHandle(win as unknown as Window, {
+      pollIntervalMillis: 100,
+    })
+
+    win.closed = true
+    jest.advanceTimersByTime(100)
+
+    await expect(handle.closed).resolves.toBe(StreamWindowCloseReason.Closed)
+  })
+
+  it("should resolve when the window returns to this origin", async () => {
+    const win = fakeWindow()
+    const handle = new StreamWindowHandle(win as unknown as Window, {
+      pollIntervalMillis: 100,
+    })
+
+    // Still loading, so not treated as navigated.
+    jest.advanceTimersByTime(100)
+    win.crossOrigin = true
+    jest.advanceTimersByTime(100)
+    win.crossOrigin = false
+    jest.advanceTimersByTime(100)
+
+    await expect(handle.closed).resolves.toBe(StreamWindowCloseReason.Navigated)
+  })
+
+  it("should close the window and stop polling", async () => {
+    const win = fakeWindow()
+    const handle = new StreamWindowHandle(win as unknown as Window)
+
+    handle.close()
+
+    expect(win.close).toHaveBeenCalled()
+    expect(jest.getTimerCount()).toBe(0)
+    await expect(handle.closed).resolves.toBe(StreamWindowCloseReason.Stopped)
+  })
+})
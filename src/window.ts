@@ -0,0 +1,112 @@
+/**
+ * Management of windows opened for {@link StreamTarget.Window} streams.
+ *
+ * @module
+ */
+
+const DEFAULT_POLL_INTERVAL_MILLIS = 2000
+
+/**
+ * Why a stream window is no longer showing the stream.
+ */
+export enum StreamWindowCloseReason {
+  /** The window was closed by the user */
+  Closed = "closed",
+  /**
+   * The window navigated away from the stream back to a page on the app's
+   * origin, e.g. by using the back button or following the provider's redirect
+   */
+  Navigated = "navigated",
+  /** The window was closed via {@link StreamWindowHandle.close} */
+  Stopped = "stopped",
+}
+
+export type StreamWindowOptions = {
+  /**
+   * How often to check whether the window has been closed or navigated.
+   * @default 2000
+   */
+  pollIntervalMillis?: number
+  /**
+   * Whether to monitor the window. Should be false when the stream replaces
+   * the current window, as this page will be unloaded.
+   * @default true
+   */
+  monitor?: boolean
+}
+
+/**
+ * Handle to the window a stream has been loaded in.
+ */
+export class StreamWindowHandle {
+  /** Resolves once the window is no longer showing the stream */
+  readonly closed: Promise<StreamWindowCloseReason>
+
+  private interval?: ReturnType<typeof setInterval>
+  private resolveClosed!: (reason: StreamWindowCloseReason) => void
+  private loaded = false
+
+  constructor(
+    /** The window the stream has been loaded in */
+    readonly window: Window,
+    { pollIntervalMillis, monitor = true }: StreamWindowOptions = {},
+  ) {
+    this.closed = new Promise((resolve) => {
+      this.resolveClosed = resolve
+    })
+
+    if (monitor) {
+      this.interval = setInterval(
+        () => this.poll(),
+        pollIntervalMillis ?? DEFAULT_POLL_INTERVAL_MILLIS,
+      )
+    }
+  }
+
+  /**
+   * Closes the window. The {@link closed} promise resolves with
+   * {@link StreamWindowCloseReason.Stopped}.
+   */
+  close(): void {
+    this.finish(StreamWindowCloseReason.Stopped)
+    this.window.close()
+  }
+
+  /**
+   * Brings the window to the front.
+   */
+  focus(): void {
+    this.window.focus()
+  }
+
+  private poll() {
+    if (this.window.closed) {
+      this.finish(StreamWindowCloseReason.Closed)
+      return
+    }
+
+    // While the provider's page is loaded its location cannot be read, as it
+    // is on another origin. Once it can be read again the window has returned
+    // to a page on this origin.
+    if (isCrossOrigin(this.window)) {
+      this.loaded = true
+    } else if (this.loaded) {
+      this.finish(StreamWindowCloseReason.Navigated)
+    }
+  }
+
+  private finish(reason: StreamWindowCloseReason) {
+    clearInterval(this.interval)
+    this.interval = undefined
+    this.resolveClosed(reason)
+  }
+}
+
+function isCrossOrigin(win: Window): boolean {
+  try {
+    // Reading the href of a cross-origin window throws a SecurityError.
+    return win.location.href === undefined
+  } catch {
+    return true
+  }
+}